@@ -0,0 +1,86 @@
+import { CalculationError } from "./calculate-runtime";
+import { analyzeResults, checkSampleRatio } from "./analyze-results";
+import type {
+  ResultsAnalysis,
+  VariationCounts,
+  SampleRatioCheck,
+} from "./analyze-results";
+
+export type AnalyzeResultsParams = {
+  variations: VariationCounts[];
+  sigLevel?: number;
+  MDE?: number;
+};
+
+export type CheckSampleRatioParams = {
+  visitors: number[];
+  weights?: number[];
+  names?: string[];
+  threshold?: number;
+};
+
+export async function analyzeExperimentCounts(
+  params: AnalyzeResultsParams
+): Promise<ResultsAnalysis> {
+  const { variations, sigLevel, MDE } = params;
+
+  try {
+    return analyzeResults(variations, sigLevel, { MDE });
+  } catch (error) {
+    throw toAnalysisToolError(error);
+  }
+}
+
+export async function checkSampleRatioMismatch(
+  params: CheckSampleRatioParams
+): Promise<SampleRatioCheck> {
+  const { visitors, weights, names, threshold } = params;
+
+  if (weights && Array.isArray(visitors) && weights.length !== visitors.length) {
+    throw new Error(
+      `Invalid weights: ${weights.length} weights were given for ${visitors.length} variations. Provide one weight per variation in the same order, or leave weights out for an equal split.`
+    );
+  }
+
+  try {
+    return checkSampleRatio(
+      (visitors || []).map((count, index) => ({
+        name: names?.[index],
+        visitors: count,
+        weight: weights?.[index],
+      })),
+      threshold
+    );
+  } catch (error) {
+    throw toAnalysisToolError(error);
+  }
+}
+
+// Translate CalculationError codes into guidance the Opal agent can act on
+function toAnalysisToolError(error: unknown): Error {
+  if (error instanceof CalculationError) {
+    if (error.code === "INVALID_VARIATIONS") {
+      return new Error(
+        `Invalid variation counts: ${error.message} List the control first, then each variation, with its unique visitors and conversions.`
+      );
+    } else if (error.code === "INVALID_SRM_INPUT") {
+      return new Error(
+        `Invalid sample ratio check input: ${error.message} Provide the visitors per variation and, for uneven splits, the traffic weight of each.`
+      );
+    } else if (error.code === "INVALID_SIGNIFICANCE_LEVEL") {
+      return new Error(
+        `Invalid Statistical Significance Level: ${error.message} This sets the confidence interval width and the threshold for calling a result significant.`
+      );
+    } else if (error.code === "INVALID_MDE") {
+      return new Error(
+        `Invalid Minimum Detectable Effect: ${error.message} It only tunes the sequential test; leave it out to use 10%.`
+      );
+    }
+    return new Error(`Results analysis error: ${error.message}`);
+  }
+  return new Error(
+    `Unexpected error analyzing experiment results: ${
+      error instanceof Error ? error.message : "Unknown error"
+    }`
+  );
+}
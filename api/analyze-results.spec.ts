@@ -0,0 +1,125 @@
+import { analyzeResults, checkSampleRatio } from './analyze-results';
+import { CalculationError } from './calculate-runtime';
+
+function captureError(fn: () => unknown): CalculationError {
+  try {
+    fn();
+  } catch (error) {
+    return error as CalculationError;
+  }
+  throw new Error('Expected a CalculationError to be thrown');
+}
+
+describe('Results Analysis', () => {
+  describe('analyzeResults', () => {
+    const counts = [
+      { name: 'Control', visitors: 10000, conversions: 1000 },
+      { name: 'B', visitors: 10000, conversions: 1100 },
+    ];
+
+    it('should compute lift and the pooled z-test p-value', () => {
+      const [comparison] = analyzeResults(counts).comparisons;
+
+      expect(comparison.name).toBe('B');
+      expect(comparison.absoluteLift).toBeCloseTo(0.01, 10);
+      expect(comparison.relativeLift).toBeCloseTo(0.1, 10);
+      expect(comparison.zScore).toBeCloseTo(2.3066, 3);
+      expect(comparison.pValue).toBeCloseTo(0.0211, 3);
+      expect(comparison.significant).toBe(true);
+    });
+
+    it('should return confidence intervals that match the p-value', () => {
+      const [at95] = analyzeResults(counts, 95).comparisons;
+      const [at99] = analyzeResults(counts, 99).comparisons;
+
+      expect(at95.confidenceInterval.lower).toBeGreaterThan(0);
+      expect(at95.relativeConfidenceInterval?.lower).toBeGreaterThan(0);
+      expect(at99.confidenceInterval.lower).toBeLessThan(0);
+      expect(at99.significant).toBe(false);
+    });
+
+    it('should be more conservative with the sequential test', () => {
+      const [comparison] = analyzeResults(counts).comparisons;
+
+      expect(comparison.sequential.pValue).toBeGreaterThan(comparison.pValue);
+      expect(comparison.sequential.significant).toBe(false);
+      expect(comparison.sequential.significance).toBeCloseTo((1 - comparison.sequential.pValue) * 100, 1);
+    });
+
+    it('should reach sequential significance with a large enough sample', () => {
+      const [comparison] = analyzeResults([
+        { visitors: 100000, conversions: 10000 },
+        { visitors: 100000, conversions: 11000 },
+      ]).comparisons;
+
+      expect(comparison.sequential.significant).toBe(true);
+    });
+
+    it('should compare every variation against control', () => {
+      const analysis = analyzeResults([...counts, { visitors: 10000, conversions: 950 }]);
+
+      expect(analysis.control.name).toBe('Control');
+      expect(analysis.comparisons.map((comparison) => comparison.name)).toEqual(['B', 'Variation 2']);
+      expect(analysis.comparisons[1].relativeLift).toBeCloseTo(-0.05, 10);
+    });
+
+    it('should omit the relative interval when the control has no conversions', () => {
+      const [comparison] = analyzeResults([
+        { visitors: 1000, conversions: 0 },
+        { visitors: 1000, conversions: 3 },
+      ]).comparisons;
+
+      expect(comparison.relativeLift).toBeNull();
+      expect(comparison.relativeConfidenceInterval).toBeNull();
+    });
+
+    it('should reject more conversions than visitors', () => {
+      const error = captureError(() => analyzeResults([counts[0], { visitors: 100, conversions: 101 }]));
+
+      expect(error.code).toBe('INVALID_VARIATIONS');
+    });
+
+    it('should require a control and at least one variation', () => {
+      const error = captureError(() => analyzeResults([counts[0]]));
+
+      expect(error.code).toBe('INVALID_VARIATIONS');
+    });
+  });
+
+  describe('checkSampleRatio', () => {
+    it('should pass a split that is within chance', () => {
+      const check = checkSampleRatio([{ visitors: 5023 }, { visitors: 4977 }]);
+
+      expect(check.degreesOfFreedom).toBe(1);
+      expect(check.chiSquare).toBeCloseTo(0.2116, 4);
+      expect(check.pValue).toBeCloseTo(0.6455, 3);
+      expect(check.mismatch).toBe(false);
+    });
+
+    it('should flag a mismatch against the configured weights', () => {
+      const check = checkSampleRatio([
+        { name: 'Control', visitors: 8300, weight: 8000 },
+        { name: 'B', visitors: 1700, weight: 2000 },
+      ]);
+
+      expect(check.variations[0].expectedShare).toBeCloseTo(0.8, 10);
+      expect(check.variations[1].expectedVisitors).toBeCloseTo(2000, 10);
+      expect(check.mismatch).toBe(true);
+      expect(check.pValue).toBeLessThan(0.001);
+    });
+
+    it('should use one degree of freedom less than the number of variations', () => {
+      const check = checkSampleRatio([{ visitors: 1000 }, { visitors: 1000 }, { visitors: 1000 }]);
+
+      expect(check.degreesOfFreedom).toBe(2);
+      expect(check.chiSquare).toBe(0);
+      expect(check.pValue).toBe(1);
+    });
+
+    it('should require weights for every variation or none', () => {
+      const error = captureError(() => checkSampleRatio([{ visitors: 100, weight: 50 }, { visitors: 100 }]));
+
+      expect(error.code).toBe('INVALID_SRM_INPUT');
+    });
+  });
+});
@@ -0,0 +1,308 @@
+/*
+Post-hoc Analysis of Experiment Results from Raw Counts
+------------------------------------------------------
+variations = visitors and conversions per variation, control first
+sigLevel = desired significance level as number (95 for 95%), defaults to 95
+MDE = optional relative effect the test was planned for, sets the mixing
+      variance of the sequential test (defaults to 0.1)
+returns: each treatment compared against control
+
+Each comparison reports the absolute and relative lift, a confidence interval
+for both (Wald for the difference, log ratio for the relative lift), and the
+two-sided p-value of a pooled two-proportion z-test. The sequential-style
+result is a mixture SPRT on the same counts, as Stats Engine uses: its
+always-valid p-value stays correct even when results were checked repeatedly,
+so it is the one to trust for a test that was monitored while running.
+
+checkSampleRatio is the sample ratio mismatch (SRM) check: a chi-square
+goodness-of-fit test of the visitors each variation received against its
+traffic weight. A p-value below the threshold (0.001 by default, so healthy
+tests rarely trip it) means assignment or tracking is broken and the results
+should not be trusted.
+*/
+
+import { CalculationError } from './calculate-runtime';
+import { normalCdf, normalQuantile, mixtureSprtLogLikelihoodRatio, chiSquareSurvival } from './statistics';
+
+export type VariationCounts = {
+  name?: string;
+  visitors: number;
+  conversions: number;
+};
+
+export type AnalysisOptions = {
+  MDE?: number;
+};
+
+export type Interval = {
+  lower: number;
+  upper: number;
+};
+
+export type VariationSummary = {
+  name: string;
+  visitors: number;
+  conversions: number;
+  conversionRate: number;
+};
+
+export type VariationComparison = VariationSummary & {
+  absoluteLift: number;
+  relativeLift: number | null;
+  confidenceInterval: Interval;
+  // null when either arm has no conversions
+  relativeConfidenceInterval: Interval | null;
+  zScore: number;
+  pValue: number;
+  significant: boolean;
+  sequential: {
+    pValue: number;
+    // Optimizely-style "statistical significance" in percent
+    significance: number;
+    significant: boolean;
+  };
+};
+
+export type ResultsAnalysis = {
+  sigLevel: number;
+  alpha: number;
+  control: VariationSummary;
+  comparisons: VariationComparison[];
+};
+
+export type SampleRatioVariation = {
+  name?: string;
+  visitors: number;
+  // Any scale (percent, Optimizely basis points); defaults to an equal split
+  weight?: number;
+};
+
+export type SampleRatioCheck = {
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  threshold: number;
+  mismatch: boolean;
+  variations: {
+    name: string;
+    visitors: number;
+    expectedVisitors: number;
+    observedShare: number;
+    expectedShare: number;
+  }[];
+};
+
+const DEFAULT_SIG_LEVEL = 95;
+
+const DEFAULT_SRM_THRESHOLD = 0.001;
+
+// Stats Engine style tests need an effect size to mix over; 10% is a common planning MDE
+const DEFAULT_SEQUENTIAL_MDE = 0.1;
+
+export function analyzeResults(
+  variations: VariationCounts[],
+  sigLevel: number = DEFAULT_SIG_LEVEL,
+  options: AnalysisOptions = {}
+): ResultsAnalysis {
+  const { MDE = DEFAULT_SEQUENTIAL_MDE } = options;
+
+  if (!Array.isArray(variations) || variations.length < 2) {
+    throw new CalculationError(
+      `At least two variations (control first) are required. Received: ${JSON.stringify(variations)}.`,
+      'INVALID_VARIATIONS',
+      `For example [{ "name": "Control", "visitors": 10000, "conversions": 1000 }, { "name": "Variation", "visitors": 10000, "conversions": 1100 }]`
+    );
+  }
+
+  variations.forEach((variation, index) => {
+    const { visitors, conversions } = variation || ({} as VariationCounts);
+    if (
+      !Number.isInteger(visitors) ||
+      visitors <= 0 ||
+      !Number.isInteger(conversions) ||
+      conversions < 0 ||
+      conversions > visitors
+    ) {
+      throw new CalculationError(
+        `Variation ${index + 1} must have a positive whole number of visitors and between 0 and that many conversions. Received: visitors=${visitors}, conversions=${conversions}.`,
+        'INVALID_VARIATIONS',
+        `Use the unique visitor and converting visitor counts exported for each variation`
+      );
+    }
+  });
+
+  if (typeof sigLevel !== 'number' || isNaN(sigLevel) || sigLevel <= 0 || sigLevel >= 100) {
+    throw new CalculationError(
+      `Significance Level must be a number between 0 and 100 (exclusive). Received: ${sigLevel}. Common values are 90, 95, or 99.`,
+      'INVALID_SIGNIFICANCE_LEVEL',
+      `Use values like 95 for 95% confidence level, not 0.95`
+    );
+  }
+
+  if (typeof MDE !== 'number' || isNaN(MDE) || MDE <= 0) {
+    throw new CalculationError(
+      `Minimum Detectable Effect (MDE) must be a positive number. Received: ${MDE}. For example, use 0.05 for a test planned around a 5% relative improvement.`,
+      'INVALID_MDE',
+      `MDE should be a decimal like 0.05 (5% relative change) or 0.10 (10% relative change)`
+    );
+  }
+
+  const alpha = (100 - sigLevel) / 100;
+  const z = normalQuantile(1 - alpha / 2);
+  const [control, ...treatments] = variations.map(summarize);
+
+  return {
+    sigLevel,
+    alpha,
+    control,
+    comparisons: treatments.map((treatment) => compare(control, treatment, alpha, z, MDE)),
+  };
+}
+
+function summarize(variation: VariationCounts, index: number): VariationSummary {
+  return {
+    name: variation.name || (index === 0 ? 'Control' : `Variation ${index}`),
+    visitors: variation.visitors,
+    conversions: variation.conversions,
+    conversionRate: variation.conversions / variation.visitors,
+  };
+}
+
+function compare(
+  control: VariationSummary,
+  treatment: VariationSummary,
+  alpha: number,
+  z: number,
+  MDE: number
+): VariationComparison {
+  const p1 = control.conversionRate;
+  const p2 = treatment.conversionRate;
+  const n1 = control.visitors;
+  const n2 = treatment.visitors;
+  const absoluteLift = p2 - p1;
+
+  // Pooled standard error under H0 for the p-value
+  const pooled = (control.conversions + treatment.conversions) / (n1 + n2);
+  const pooledError = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  const zScore = pooledError > 0 ? absoluteLift / pooledError : 0;
+  const pValue = pooledError > 0 ? 2 * (1 - normalCdf(Math.abs(zScore))) : 1;
+
+  // Unpooled variance of the difference for the interval and sequential test
+  const variance = (p1 * (1 - p1)) / n1 + (p2 * (1 - p2)) / n2;
+  const margin = z * Math.sqrt(variance);
+
+  const absoluteMDE = p1 > 0 ? p1 * MDE : MDE * pooled;
+  const mixingVariance = absoluteMDE * absoluteMDE;
+  const sequentialPValue =
+    variance > 0 && mixingVariance > 0
+      ? Math.min(1, Math.exp(-mixtureSprtLogLikelihoodRatio(absoluteLift, variance, mixingVariance)))
+      : 1;
+
+  return {
+    ...treatment,
+    absoluteLift,
+    relativeLift: p1 > 0 ? absoluteLift / p1 : null,
+    confidenceInterval: { lower: absoluteLift - margin, upper: absoluteLift + margin },
+    relativeConfidenceInterval: relativeInterval(control, treatment, z),
+    zScore,
+    pValue,
+    significant: pValue < alpha,
+    sequential: {
+      pValue: sequentialPValue,
+      significance: Math.round((1 - sequentialPValue) * 10000) / 100,
+      significant: sequentialPValue < alpha,
+    },
+  };
+}
+
+// Interval on the log of the rate ratio, which stays positive and asymmetric
+function relativeInterval(control: VariationSummary, treatment: VariationSummary, z: number): Interval | null {
+  const p1 = control.conversionRate;
+  const p2 = treatment.conversionRate;
+  if (p1 === 0 || p2 === 0) {
+    return null;
+  }
+
+  const logRatio = Math.log(p2 / p1);
+  const logError = Math.sqrt((1 - p1) / (control.visitors * p1) + (1 - p2) / (treatment.visitors * p2));
+  return {
+    lower: Math.exp(logRatio - z * logError) - 1,
+    upper: Math.exp(logRatio + z * logError) - 1,
+  };
+}
+
+export function checkSampleRatio(
+  variations: SampleRatioVariation[],
+  threshold: number = DEFAULT_SRM_THRESHOLD
+): SampleRatioCheck {
+  if (
+    !Array.isArray(variations) ||
+    variations.length < 2 ||
+    variations.some((variation) => !variation || !Number.isInteger(variation.visitors) || variation.visitors < 0)
+  ) {
+    throw new CalculationError(
+      `At least two variations with whole, non-negative visitor counts are required. Received: ${JSON.stringify(variations)}.`,
+      'INVALID_SRM_INPUT',
+      `For example [{ "visitors": 5023, "weight": 50 }, { "visitors": 4977, "weight": 50 }]`
+    );
+  }
+
+  const weighted = variations.filter((variation) => variation.weight !== undefined).length;
+  if (
+    (weighted > 0 && weighted < variations.length) ||
+    variations.some((variation) => variation.weight !== undefined && !(variation.weight > 0 && isFinite(variation.weight)))
+  ) {
+    throw new CalculationError(
+      `Give every variation a positive weight, or leave weights out for an equal split. Received weights: ${JSON.stringify(variations.map((variation) => variation.weight))}.`,
+      'INVALID_SRM_INPUT',
+      `Use the traffic allocation of each variation, e.g. 50 and 50, or Optimizely's 5000 and 5000`
+    );
+  }
+
+  if (typeof threshold !== 'number' || !(threshold > 0 && threshold < 1)) {
+    throw new CalculationError(
+      `Threshold must be a p-value between 0 and 1 (exclusive). Received: ${threshold}.`,
+      'INVALID_SRM_INPUT',
+      `0.001 is the usual SRM threshold`
+    );
+  }
+
+  const totalVisitors = variations.reduce((sum, variation) => sum + variation.visitors, 0);
+  if (totalVisitors === 0) {
+    throw new CalculationError(
+      `The experiment has no visitors yet, so the sample ratio cannot be checked.`,
+      'INVALID_SRM_INPUT',
+      `Run the check once variations have received traffic`
+    );
+  }
+
+  const weights = variations.map((variation) => (weighted > 0 ? (variation.weight as number) : 1));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const rows = variations.map((variation, index) => {
+    const expectedShare = weights[index] / totalWeight;
+    return {
+      name: variation.name || (index === 0 ? 'Control' : `Variation ${index}`),
+      visitors: variation.visitors,
+      expectedVisitors: expectedShare * totalVisitors,
+      observedShare: variation.visitors / totalVisitors,
+      expectedShare,
+    };
+  });
+
+  const chiSquare = rows.reduce(
+    (sum, row) => sum + ((row.visitors - row.expectedVisitors) * (row.visitors - row.expectedVisitors)) / row.expectedVisitors,
+    0
+  );
+  const degreesOfFreedom = variations.length - 1;
+  const pValue = chiSquareSurvival(chiSquare, degreesOfFreedom);
+
+  return {
+    chiSquare,
+    degreesOfFreedom,
+    pValue,
+    threshold,
+    mismatch: pValue < threshold,
+    variations: rows,
+  };
+}
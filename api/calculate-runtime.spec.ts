@@ -0,0 +1,778 @@
+import {
+  estimateRunTime,
+  estimateRunTimeDays,
+  estimateDetectableMDE,
+  estimateRequiredTraffic,
+  estimateSampleSize,
+  estimateContinuousRunTime,
+  planRunTime,
+  estimateRemainingRunTime,
+  estimateHistoricalBaseline,
+  estimateBayesianRunTime,
+  CalculationError,
+} from './calculate-runtime';
+
+function captureError(fn: () => unknown): CalculationError {
+  try {
+    fn();
+  } catch (error) {
+    return error as CalculationError;
+  }
+  throw new Error('Expected a CalculationError to be thrown');
+}
+
+describe('Runtime Calculator', () => {
+  describe('estimateRunTime', () => {
+    it('should return the full sample-size breakdown', () => {
+      const result = estimateRunTime(0.1, 0.1, 95, 2, 1000);
+
+      expect(result.relativeMDE).toBe(0.1);
+      expect(result.absoluteMDE).toBeCloseTo(0.01, 10);
+      expect(result.alpha).toBeCloseTo(0.05, 10);
+      expect(result.rates.c1).toBe(0.1);
+      expect(result.rates.c2).toBeCloseTo(0.09, 10);
+      expect(result.rates.c3).toBeCloseTo(0.11, 10);
+      expect(result.totalSampleSize).toBeGreaterThanOrEqual(result.sampleSizePerVariation * 2 - 1);
+      expect(result.rawDays).toBeCloseTo(result.totalSampleSize / 1000, 2);
+      expect(result.days).toBe(Math.ceil(result.rawDays));
+    });
+
+    it('should agree with estimateRunTimeDays', () => {
+      const result = estimateRunTime(0.05, 0.2, 90, 3, 5000);
+
+      expect(estimateRunTimeDays(0.05, 0.2, 90, 3, 5000)).toBe(result.days);
+    });
+
+    it('should scale the total sample size with the number of variations', () => {
+      const twoArms = estimateRunTime(0.1, 0.1, 95, 2, 1000);
+      const fourArms = estimateRunTime(0.1, 0.1, 95, 4, 1000);
+
+      expect(fourArms.sampleSizePerVariation).toBe(twoArms.sampleSizePerVariation);
+      expect(fourArms.rawDays).toBeCloseTo(twoArms.rawDays * 2, 6);
+    });
+
+    it('should reject a BCR given as a percentage', () => {
+      const error = captureError(() => estimateRunTime(5, 0.1, 95, 2, 1000));
+
+      expect(error).toBeInstanceOf(CalculationError);
+      expect(error.code).toBe('INVALID_BCR');
+    });
+
+    it('should reject durations over one year', () => {
+      const error = captureError(() => estimateRunTime(0.01, 0.01, 95, 2, 100));
+
+      expect(error.code).toBe('DURATION_TOO_LONG');
+    });
+
+    it('should compute a fixed-horizon estimate at 80% power by default', () => {
+      const result = estimateRunTime(0.1, 0.1, 95, 2, 1000);
+
+      // Textbook two-sided z-test: p1 = 0.10, p2 = 0.11, alpha = 0.05, power = 0.80
+      expect(result.fixedHorizon.power).toBe(80);
+      expect(result.fixedHorizon.sampleSizePerVariation).toBeGreaterThan(14740);
+      expect(result.fixedHorizon.sampleSizePerVariation).toBeLessThan(14760);
+      expect(result.fixedHorizon.totalSampleSize).toBe(result.fixedHorizon.sampleSizePerVariation * 2);
+    });
+
+    it('should require more visitors for higher power', () => {
+      const eighty = estimateRunTime(0.1, 0.1, 95, 2, 1000, { power: 80 });
+      const ninety = estimateRunTime(0.1, 0.1, 95, 2, 1000, { power: 90 });
+
+      expect(ninety.fixedHorizon.totalSampleSize).toBeGreaterThan(eighty.fixedHorizon.totalSampleSize);
+      expect(ninety.days).toBe(eighty.days);
+    });
+
+    it('should reject power outside (0, 100)', () => {
+      const error = captureError(() => estimateRunTime(0.1, 0.1, 95, 2, 1000, { power: 100 }));
+
+      expect(error.code).toBe('INVALID_POWER');
+    });
+  });
+
+  describe('estimateDetectableMDE', () => {
+    it('should find the smallest MDE that fits the day budget', () => {
+      const result = estimateDetectableMDE(0.1, 95, 2, 1000, 14);
+
+      expect(result.estimate.days).toBeLessThanOrEqual(14);
+      expect(result.detectableMDE).toBe(result.estimate.relativeMDE);
+      expect(Number(result.detectableMDE.toFixed(4))).toBe(result.detectableMDE);
+
+      // One step smaller no longer fits
+      const smaller = estimateRunTime(0.1, result.detectableMDE - 0.0001, 95, 2, 1000);
+      expect(smaller.rawDays).toBeGreaterThan(14);
+    });
+
+    it('should round-trip with estimateRunTime', () => {
+      const forward = estimateRunTime(0.05, 0.15, 90, 3, 4000);
+      const inverse = estimateDetectableMDE(0.05, 90, 3, 4000, forward.days);
+
+      expect(inverse.estimate.days).toBe(forward.days);
+      expect(inverse.detectableMDE).toBeLessThanOrEqual(0.15);
+    });
+
+    it('should keep the cycle-rounded days within the budget', () => {
+      const result = estimateDetectableMDE(0.1, 95, 2, 1000, 10, { cycleDays: 7 });
+
+      expect(result.estimate.days).toBe(7);
+      expect(result.estimate.rawDays).toBeLessThanOrEqual(7);
+    });
+
+    it('should detect smaller effects with longer windows', () => {
+      const short = estimateDetectableMDE(0.1, 95, 2, 1000, 7);
+      const long = estimateDetectableMDE(0.1, 95, 2, 1000, 28);
+
+      expect(long.detectableMDE).toBeLessThan(short.detectableMDE);
+    });
+
+    it('should reject a non-positive day budget', () => {
+      const error = captureError(() => estimateDetectableMDE(0.1, 95, 2, 1000, 0));
+
+      expect(error.code).toBe('INVALID_MAX_DAYS');
+    });
+
+    it('should report when no effect fits the window', () => {
+      const error = captureError(() => estimateDetectableMDE(0.001, 99, 2, 10, 1));
+
+      expect(error.code).toBe('MAX_DAYS_TOO_SHORT');
+    });
+  });
+
+  describe('estimateRequiredTraffic', () => {
+    it('should return the daily visitors needed to finish on time', () => {
+      const result = estimateRequiredTraffic(0.1, 0.1, 95, 2, 21);
+      const check = estimateRunTime(0.1, 0.1, 95, 2, result.requiredDailyVisitors);
+
+      expect(check.rawDays).toBeLessThanOrEqual(21);
+      expect(result.sampleSize).toEqual(estimateSampleSize(0.1, 0.1, 95, 2));
+      expect(result.trafficAllocationPercent).toBeUndefined();
+    });
+
+    it('should compute the traffic allocation when total traffic is supplied', () => {
+      const result = estimateRequiredTraffic(0.1, 0.1, 95, 2, 21, 10000);
+
+      expect(result.trafficAllocationPercent).toBeCloseTo((result.requiredDailyVisitors / 10000) * 100, 2);
+      expect(result.exceedsAvailableTraffic).toBe(result.requiredDailyVisitors > 10000);
+    });
+
+    it('should flag when the required traffic exceeds what is available', () => {
+      const result = estimateRequiredTraffic(0.1, 0.02, 95, 2, 7, 1000);
+
+      expect(result.exceedsAvailableTraffic).toBe(true);
+      expect(result.trafficAllocationPercent).toBeGreaterThan(100);
+    });
+
+    it('should solve for traffic that finishes on time with a ramp, weekday profile and cycle', () => {
+      const options = {
+        rampSchedule: [
+          { day: 0, allocation: 10 },
+          { day: 3, allocation: 50 },
+          { day: 7, allocation: 100 },
+        ],
+        weekdayTrafficProfile: [1, 1, 1, 1, 1, 0.5, 0.5],
+        cycleDays: 7,
+      };
+      const result = estimateRequiredTraffic(0.1, 0.1, 95, 2, 21, undefined, options);
+
+      expect(estimateRunTime(0.1, 0.1, 95, 2, result.requiredDailyVisitors, options).days).toBeLessThanOrEqual(21);
+      expect(estimateRunTime(0.1, 0.1, 95, 2, result.requiredDailyVisitors - 1, options).days).toBeGreaterThan(21);
+      expect(result.requiredDailyVisitors).toBeGreaterThan(estimateRequiredTraffic(0.1, 0.1, 95, 2, 21).requiredDailyVisitors);
+    });
+
+    it('should reject a target shorter than one business cycle', () => {
+      const error = captureError(() => estimateRequiredTraffic(0.1, 0.1, 95, 2, 10, undefined, { cycleDays: 14 }));
+
+      expect(error.code).toBe('TARGET_DAYS_TOO_SHORT');
+    });
+
+    it('should reject a non-positive target', () => {
+      const error = captureError(() => estimateRequiredTraffic(0.1, 0.1, 95, 2, -3));
+
+      expect(error.code).toBe('INVALID_TARGET_DAYS');
+    });
+  });
+
+  describe('estimateContinuousRunTime', () => {
+    it('should estimate runtime from a baseline mean and standard deviation', () => {
+      const result = estimateContinuousRunTime({ baselineMean: 50, standardDeviation: 40 }, 0.05, 95, 2, 2000);
+
+      expect(result.metricType).toBe('continuous');
+      expect(result.absoluteMDE).toBeCloseTo(2.5, 10);
+      expect(result.variance).toBe(1600);
+      // Textbook two-sample z-test: 2 * 40^2 * (1.96 + 0.8416)^2 / 2.5^2
+      expect(result.fixedHorizon.sampleSizePerVariation).toBe(4019);
+      expect(result.days).toBe(Math.ceil(result.rawDays));
+    });
+
+    it('should accept variance in place of standard deviation', () => {
+      const fromSd = estimateContinuousRunTime({ baselineMean: 50, standardDeviation: 40 }, 0.05, 95, 2, 2000);
+      const fromVariance = estimateContinuousRunTime({ baselineMean: 50, variance: 1600 }, 0.05, 95, 2, 2000);
+
+      expect(fromVariance).toEqual(fromSd);
+    });
+
+    it('should take longer for noisier metrics', () => {
+      const quiet = estimateContinuousRunTime({ baselineMean: 50, standardDeviation: 20 }, 0.05, 95, 2, 2000);
+      const noisy = estimateContinuousRunTime({ baselineMean: 50, standardDeviation: 80 }, 0.05, 95, 2, 2000);
+
+      expect(noisy.rawDays).toBeGreaterThan(quiet.rawDays);
+    });
+
+    it('should require a spread for the metric', () => {
+      const error = captureError(() => estimateContinuousRunTime({ baselineMean: 50 }, 0.05, 95, 2, 2000));
+
+      expect(error.code).toBe('INVALID_STANDARD_DEVIATION');
+    });
+
+    it('should reject a non-positive baseline mean', () => {
+      const error = captureError(() =>
+        estimateContinuousRunTime({ baselineMean: 0, standardDeviation: 10 }, 0.05, 95, 2, 2000)
+      );
+
+      expect(error.code).toBe('INVALID_BASELINE_MEAN');
+    });
+
+    it('should share validation codes with the binary calculator', () => {
+      const error = captureError(() =>
+        estimateContinuousRunTime({ baselineMean: 50, standardDeviation: 40 }, 0.05, 0.95, 1, 2000)
+      );
+
+      expect(error.code).toBe('INVALID_NUM_VARIATIONS');
+    });
+  });
+
+  describe('multiple-comparison correction', () => {
+    it('should leave alpha unadjusted by default', () => {
+      const result = estimateRunTime(0.1, 0.1, 95, 4, 1000);
+
+      expect(result.correction.method).toBe('none');
+      expect(result.correction.numComparisons).toBe(3);
+      expect(result.alpha).toBeCloseTo(0.05, 10);
+    });
+
+    it('should divide alpha across comparisons with Bonferroni', () => {
+      const result = estimateRunTime(0.1, 0.1, 95, 4, 1000, { correction: 'bonferroni', numMetrics: 2 });
+
+      expect(result.correction.numComparisons).toBe(6);
+      expect(result.alpha).toBeCloseTo(0.05 / 6, 10);
+    });
+
+    it('should order the corrections from most to least conservative', () => {
+      const alphaFor = (correction: 'none' | 'bonferroni' | 'sidak' | 'fdr') =>
+        estimateRunTime(0.1, 0.1, 95, 5, 1000, { correction }).alpha;
+
+      expect(alphaFor('bonferroni')).toBeLessThan(alphaFor('sidak'));
+      expect(alphaFor('sidak')).toBeLessThan(alphaFor('fdr'));
+      expect(alphaFor('fdr')).toBeLessThan(alphaFor('none'));
+    });
+
+    it('should lengthen the fixed-horizon estimate for many-arm tests', () => {
+      const uncorrected = estimateRunTime(0.1, 0.1, 95, 5, 1000);
+      const corrected = estimateRunTime(0.1, 0.1, 95, 5, 1000, { correction: 'bonferroni' });
+
+      expect(corrected.fixedHorizon.sampleSizePerVariation).toBeGreaterThan(
+        uncorrected.fixedHorizon.sampleSizePerVariation
+      );
+    });
+
+    it('should lengthen the headline days in step with the fixed-horizon estimate', () => {
+      const uncorrected = estimateRunTime(0.1, 0.1, 95, 4, 1000);
+      const corrected = estimateRunTime(0.1, 0.1, 95, 4, 1000, { correction: 'bonferroni' });
+      const fixedHorizonRatio =
+        corrected.fixedHorizon.sampleSizePerVariation / uncorrected.fixedHorizon.sampleSizePerVariation;
+
+      expect(uncorrected.correction.sampleSizeFactor).toBe(1);
+      expect(corrected.correction.sampleSizeFactor).toBeCloseTo(fixedHorizonRatio, 2);
+      expect(corrected.days).toBeGreaterThanOrEqual(Math.floor(uncorrected.days * fixedHorizonRatio));
+    });
+
+    it('should reject unknown correction methods', () => {
+      const error = captureError(() =>
+        estimateRunTime(0.1, 0.1, 95, 3, 1000, { correction: 'holm' as 'none' })
+      );
+
+      expect(error.code).toBe('INVALID_CORRECTION');
+    });
+  });
+
+  describe('non-inferiority and equivalence tests', () => {
+    it('should default to a superiority test', () => {
+      expect(estimateRunTime(0.1, 0.05, 95, 2, 5000).testType).toBe('superiority');
+    });
+
+    it('should size a one-sided fixed-horizon test against the margin for non-inferiority', () => {
+      const result = estimateRunTime(0.1, 0.05, 95, 2, 5000, { testType: 'non_inferiority' });
+
+      // (z(0.95) * sqrt(V at the margin) + z(0.8) * sqrt(V at no difference))^2 / 0.005^2
+      expect(result.testType).toBe('non_inferiority');
+      expect(result.fixedHorizon.sampleSizePerVariation).toBe(43855);
+      expect(result.fixedHorizon.sampleSizePerVariation).toBeLessThan(
+        estimateRunTime(0.1, 0.05, 95, 2, 5000).fixedHorizon.sampleSizePerVariation
+      );
+    });
+
+    it('should need more visitors for equivalence than non-inferiority', () => {
+      const nonInferiority = estimateRunTime(0.1, 0.05, 95, 2, 5000, { testType: 'non_inferiority' });
+      const equivalence = estimateRunTime(0.1, 0.05, 95, 2, 5000, { testType: 'equivalence' });
+
+      expect(equivalence.fixedHorizon.sampleSizePerVariation).toBeGreaterThan(
+        nonInferiority.fixedHorizon.sampleSizePerVariation
+      );
+      expect(equivalence.sampleSizePerVariation).toBeGreaterThan(nonInferiority.sampleSizePerVariation);
+    });
+
+    it('should support continuous metrics', () => {
+      const result = estimateContinuousRunTime({ baselineMean: 50, standardDeviation: 40 }, 0.05, 95, 2, 5000, {
+        testType: 'equivalence',
+      });
+
+      expect(result.testType).toBe('equivalence');
+      expect(result.fixedHorizon.sampleSizePerVariation).toBe(4385);
+    });
+
+    it('should allow a non-inferiority margin above the upper rate limit', () => {
+      expect(estimateRunTime(0.6, 0.8, 95, 2, 5000, { testType: 'non_inferiority' }).days).toBeGreaterThan(0);
+      expect(captureError(() => estimateRunTime(0.6, 0.8, 95, 2, 5000, { testType: 'equivalence' })).code).toBe(
+        'MDE_TOO_LARGE'
+      );
+    });
+
+    it('should reject unknown test types and significance levels of 50 or below', () => {
+      expect(
+        captureError(() => estimateRunTime(0.1, 0.05, 95, 2, 5000, { testType: 'inferiority' as 'superiority' })).code
+      ).toBe('INVALID_TEST_TYPE');
+      expect(captureError(() => estimateRunTime(0.1, 0.05, 50, 2, 5000, { testType: 'equivalence' })).code).toBe(
+        'INVALID_SIGNIFICANCE_LEVEL'
+      );
+    });
+  });
+
+  describe('CUPED variance reduction', () => {
+    it('should report the unadjusted plan alongside the adjusted one', () => {
+      const plain = estimateRunTime(0.1, 0.05, 95, 2, 5000);
+      const adjusted = estimateRunTime(0.1, 0.05, 95, 2, 5000, { varianceReduction: 0.3 });
+
+      expect(plain.varianceReduction).toBeUndefined();
+      expect(adjusted.days).toBeLessThan(plain.days);
+      expect(adjusted.varianceReduction?.ratio).toBe(0.3);
+      expect(adjusted.varianceReduction?.unadjusted.days).toBe(plain.days);
+      expect(adjusted.varianceReduction?.unadjusted.sampleSizePerVariation).toBe(plain.sampleSizePerVariation);
+    });
+
+    it('should scale the fixed-horizon sample size by one minus the reduction', () => {
+      const plain = estimateContinuousRunTime({ baselineMean: 50, standardDeviation: 40 }, 0.02, 95, 2, 5000);
+      const adjusted = estimateContinuousRunTime({ baselineMean: 50, standardDeviation: 40 }, 0.02, 95, 2, 5000, {
+        varianceReduction: 0.5,
+      });
+
+      expect(adjusted.fixedHorizon.sampleSizePerVariation).toBeCloseTo(plain.fixedHorizon.sampleSizePerVariation / 2, -1);
+      expect(adjusted.varianceReduction?.unadjusted.fixedHorizonDays).toBe(plain.fixedHorizon.days);
+    });
+
+    it('should derive the reduction from the pre-experiment correlation', () => {
+      const fromCorrelation = estimateRunTime(0.1, 0.05, 95, 2, 5000, { preExperimentCorrelation: 0.5 });
+      const fromRatio = estimateRunTime(0.1, 0.05, 95, 2, 5000, { varianceReduction: 0.25 });
+
+      expect(fromCorrelation.varianceReduction?.correlation).toBe(0.5);
+      expect(fromCorrelation.varianceReduction?.ratio).toBeCloseTo(0.25, 10);
+      expect(fromCorrelation.days).toBe(fromRatio.days);
+    });
+
+    it('should reject out-of-range or conflicting inputs', () => {
+      expect(captureError(() => estimateRunTime(0.1, 0.05, 95, 2, 5000, { varianceReduction: 1 })).code).toBe(
+        'INVALID_VARIANCE_REDUCTION'
+      );
+      expect(
+        captureError(() =>
+          estimateRunTime(0.1, 0.05, 95, 2, 5000, { varianceReduction: 0.3, preExperimentCorrelation: 0.5 })
+        ).code
+      ).toBe('INVALID_VARIANCE_REDUCTION');
+    });
+  });
+
+  describe('unequal traffic split', () => {
+    it('should match the equal-split estimate for equal weights', () => {
+      const equal = estimateRunTime(0.1, 0.1, 95, 2, 1000);
+      const weighted = estimateRunTime(0.1, 0.1, 95, 2, 1000, { variationWeights: [5000, 5000] });
+
+      expect(weighted.rawDays).toBeCloseTo(equal.rawDays, 10);
+      expect(weighted.trafficSplit.shares).toEqual([0.5, 0.5]);
+    });
+
+    it('should size the test for the smallest arm', () => {
+      const equal = estimateRunTime(0.1, 0.1, 95, 2, 1000);
+      const skewed = estimateRunTime(0.1, 0.1, 95, 2, 1000, { variationWeights: [80, 20] });
+
+      expect(skewed.trafficSplit.limitingVariationIndex).toBe(1);
+      expect(skewed.trafficSplit.limitingShare).toBeCloseTo(0.2, 10);
+      // 20% instead of 50% of traffic reaches the smallest arm
+      expect(skewed.rawDays).toBeCloseTo(equal.rawDays * 2.5, 6);
+      expect(skewed.fixedHorizon.totalSampleSize).toBe(skewed.fixedHorizon.sampleSizePerVariation * 5);
+    });
+
+    it('should raise the required traffic for skewed splits', () => {
+      const equal = estimateRequiredTraffic(0.1, 0.1, 95, 2, 21);
+      const skewed = estimateRequiredTraffic(0.1, 0.1, 95, 2, 21, undefined, { variationWeights: [80, 20] });
+
+      expect(skewed.requiredDailyVisitors).toBeGreaterThan(equal.requiredDailyVisitors * 2);
+    });
+
+    it('should require one weight per variation', () => {
+      const error = captureError(() => estimateRunTime(0.1, 0.1, 95, 3, 1000, { variationWeights: [50, 50] }));
+
+      expect(error.code).toBe('INVALID_VARIATION_WEIGHTS');
+    });
+  });
+
+  describe('weekly seasonality', () => {
+    it('should round up to full business cycles', () => {
+      const plain = estimateRunTime(0.1, 0.1, 95, 2, 3000);
+      const weekly = estimateRunTime(0.1, 0.1, 95, 2, 3000, { cycleDays: 7 });
+
+      expect(weekly.days % 7).toBe(0);
+      expect(weekly.days).toBeGreaterThanOrEqual(plain.days);
+      expect(weekly.days - plain.days).toBeLessThan(7);
+      expect(weekly.schedule.daysBeforeCycleRounding).toBe(plain.days);
+      expect(weekly.fixedHorizon.days % 7).toBe(0);
+    });
+
+    it('should match constant traffic for a flat weekday profile', () => {
+      const plain = estimateRunTime(0.1, 0.1, 95, 2, 1000);
+      const flat = estimateRunTime(0.1, 0.1, 95, 2, 1000, { weekdayTrafficProfile: [1, 1, 1, 1, 1, 1, 1] });
+
+      expect(flat.rawDays).toBeCloseTo(plain.rawDays, 6);
+    });
+
+    it('should take longer when the test starts into a weekend dip', () => {
+      const profile = [1, 1, 1, 1, 1, 0.2, 0.2];
+      // Average traffic that would finish in exactly 3.5 days
+      const sample = estimateRunTime(0.1, 0.1, 95, 2, 1000);
+      const dailyVisitors = sample.totalSampleSize / 3.5;
+
+      const monday = estimateRunTime(0.1, 0.1, 95, 2, dailyVisitors, {
+        weekdayTrafficProfile: profile,
+        startDate: '2025-03-03',
+      });
+      const saturday = estimateRunTime(0.1, 0.1, 95, 2, dailyVisitors, {
+        weekdayTrafficProfile: profile,
+        startDate: '2025-03-08',
+      });
+
+      expect(monday.schedule.startWeekday).toBe('Monday');
+      expect(saturday.schedule.startWeekday).toBe('Saturday');
+      expect(monday.rawDays).toBeLessThan(3.5);
+      expect(saturday.rawDays).toBeGreaterThan(3.5);
+    });
+
+    it('should reject a profile without seven days', () => {
+      const error = captureError(() =>
+        estimateRunTime(0.1, 0.1, 95, 2, 1000, { weekdayTrafficProfile: [1, 1, 1, 1, 1] })
+      );
+
+      expect(error.code).toBe('INVALID_WEEKDAY_PROFILE');
+    });
+
+    it('should reject fractional cycles', () => {
+      const error = captureError(() => estimateRunTime(0.1, 0.1, 95, 2, 1000, { cycleDays: 3.5 }));
+
+      expect(error.code).toBe('INVALID_CYCLE_DAYS');
+    });
+  });
+
+  describe('ramp-up schedule', () => {
+    const ramp = [
+      { day: 0, allocation: 10 },
+      { day: 3, allocation: 50 },
+      { day: 7, allocation: 100 },
+    ];
+
+    it('should take longer than running at full traffic from day one', () => {
+      const full = estimateRunTime(0.1, 0.1, 95, 2, 2000);
+      const ramped = estimateRunTime(0.1, 0.1, 95, 2, 2000, { rampSchedule: ramp });
+
+      // Days 0-2 collect 10% and days 3-6 collect 50%, losing 4.7 days of full traffic
+      expect(ramped.rawDays).toBeCloseTo(full.rawDays + 4.7, 6);
+      expect(ramped.schedule.rampSchedule).toEqual(ramp);
+    });
+
+    it('should finish during the ramp when the sample is small', () => {
+      const full = estimateRunTime(0.3, 0.5, 80, 2, 100000);
+      const ramped = estimateRunTime(0.3, 0.5, 80, 2, 100000, { rampSchedule: ramp });
+
+      expect(ramped.rawDays).toBeCloseTo(full.rawDays * 10, 6);
+    });
+
+    it('should apply the ramp to a weekday profile day by day', () => {
+      const weekdayTrafficProfile = [1, 1, 1, 1, 1, 0.2, 0.2];
+      const result = estimateRunTime(0.3, 0.5, 80, 2, 1000, { rampSchedule: ramp, weekdayTrafficProfile });
+
+      // Walk the same schedule one day at a time
+      const visitorsByDay = weekdayTrafficProfile.map((weight) => (1000 * 7 * weight) / 5.4);
+      let remaining = estimateRunTime(0.3, 0.5, 80, 2, 1000).totalSampleSize;
+      let day = 0;
+      for (; ; day++) {
+        const allocation = day < 3 ? 0.1 : day < 7 ? 0.5 : 1;
+        const visitors = visitorsByDay[day % 7] * allocation;
+        if (visitors >= remaining) {
+          break;
+        }
+        remaining -= visitors;
+      }
+
+      expect(result.days).toBe(day + 1);
+    });
+
+    it('should not slow down with far-apart ramp steps', () => {
+      const started = Date.now();
+      const result = estimateRunTime(0.1, 0.1, 95, 2, 2000, {
+        rampSchedule: [
+          { day: 0, allocation: 100 },
+          { day: 1e10, allocation: 50 },
+        ],
+      });
+
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(result.rawDays).toBeCloseTo(estimateRunTime(0.1, 0.1, 95, 2, 2000).rawDays, 6);
+    });
+
+    it('should return the calendar end date', () => {
+      const result = estimateRunTime(0.1, 0.1, 95, 2, 2000, {
+        rampSchedule: ramp,
+        startDate: '2025-03-03',
+      });
+      const end = new Date(Date.UTC(2025, 2, 3 + result.days - 1)).toISOString().slice(0, 10);
+
+      expect(result.schedule.startDate).toBe('2025-03-03');
+      expect(result.schedule.endDate).toBe(end);
+    });
+
+    it('should require the ramp to start on day 0', () => {
+      const error = captureError(() =>
+        estimateRunTime(0.1, 0.1, 95, 2, 2000, { rampSchedule: [{ day: 2, allocation: 50 }] })
+      );
+
+      expect(error.code).toBe('INVALID_RAMP_SCHEDULE');
+    });
+  });
+
+  describe('maximum duration', () => {
+    it('should apply a custom limit', () => {
+      const error = captureError(() => estimateRunTime(0.1, 0.1, 95, 2, 500, { maxDurationDays: 28 }));
+
+      expect(error.code).toBe('DURATION_TOO_LONG');
+      expect(error.message).toContain('maximum of 28 days');
+      expect(estimateRunTime(0.1, 0.1, 95, 2, 500).maxDurationDays).toBe(365);
+    });
+
+    it('should check the limit after rounding to full cycles', () => {
+      const result = estimateRunTime(0.1, 0.1, 95, 2, 500, { maxDurationDays: 55 });
+      const error = captureError(() =>
+        estimateRunTime(0.1, 0.1, 95, 2, 500, { cycleDays: 7, maxDurationDays: 55 })
+      );
+
+      expect(result.days).toBe(55);
+      expect(error.code).toBe('DURATION_TOO_LONG');
+    });
+
+    it('should reject a non-positive limit', () => {
+      const error = captureError(() => estimateRunTime(0.1, 0.1, 95, 2, 1000, { maxDurationDays: 0 }));
+
+      expect(error.code).toBe('INVALID_MAX_DURATION');
+    });
+
+    it('should return a feasible plan within the limit', () => {
+      const plan = planRunTime(0.1, 0.1, 95, 2, 1000, { maxDurationDays: 90 });
+
+      expect(plan.feasible).toBe(true);
+      if (plan.feasible) {
+        expect(plan.days).toBe(estimateRunTime(0.1, 0.1, 95, 2, 1000).days);
+      }
+    });
+
+    it('should suggest an MDE and traffic that fit when over the limit', () => {
+      const plan = planRunTime(0.1, 0.05, 95, 2, 1000, { maxDurationDays: 28 });
+
+      expect(plan.feasible).toBe(false);
+      if (!plan.feasible) {
+        const { MDE, dailyVisitors } = plan.suggestions;
+        expect(plan.estimatedDays).toBeGreaterThan(28);
+        expect(plan.maxDurationDays).toBe(28);
+        expect(estimateRunTime(0.1, MDE as number, 95, 2, 1000).days).toBeLessThanOrEqual(28);
+        expect(estimateRunTime(0.1, 0.05, 95, 2, dailyVisitors as number).days).toBeLessThanOrEqual(28);
+        expect(estimateRunTime(0.1, 0.05, 95, 2, (dailyVisitors as number) - 1).days).toBeGreaterThan(28);
+      }
+    });
+  });
+
+  describe('estimateRemainingRunTime', () => {
+    const observed = {
+      variations: [
+        { visitors: 5000, conversions: 500 },
+        { visitors: 5000, conversions: 540 },
+      ],
+      elapsedDays: 10,
+    };
+
+    it('should derive BCR and daily traffic from the observed results', () => {
+      const result = estimateRemainingRunTime(observed, 0.1, 95);
+
+      expect(result.observedBCR).toBe(0.1);
+      expect(result.observedDailyVisitors).toBe(1000);
+      expect(result.visitorsSoFar).toBe(10000);
+      expect(result.estimate.feasible).toBe(true);
+      if (result.estimate.feasible) {
+        expect(result.estimate.days).toBe(estimateRunTime(0.1, 0.1, 95, 2, 1000).days);
+        expect(result.remainingDays).toBe(Math.ceil(result.estimate.rawDays - 10));
+      }
+    });
+
+    it('should return 0 remaining days once the sample is reached', () => {
+      const result = estimateRemainingRunTime(observed, 0.5, 95);
+
+      expect(result.remainingDays).toBe(0);
+    });
+
+    it('should use the observed split as the traffic weights', () => {
+      const result = estimateRemainingRunTime(
+        {
+          variations: [
+            { visitors: 8000, conversions: 800 },
+            { visitors: 2000, conversions: 210 },
+          ],
+          elapsedDays: 10,
+        },
+        0.1,
+        95
+      );
+
+      expect(result.estimate.feasible && result.estimate.trafficSplit.shares).toEqual([0.8, 0.2]);
+    });
+
+    it('should report null remaining days when over the maximum duration', () => {
+      const result = estimateRemainingRunTime(observed, 0.01, 95, { maxDurationDays: 90 });
+
+      expect(result.remainingDays).toBeNull();
+      expect(result.estimate.feasible).toBe(false);
+    });
+
+    it('should require conversions in the control', () => {
+      const error = captureError(() =>
+        estimateRemainingRunTime(
+          { variations: [{ visitors: 500, conversions: 0 }, { visitors: 500, conversions: 2 }], elapsedDays: 1 },
+          0.1,
+          95
+        )
+      );
+
+      expect(error.code).toBe('NO_OBSERVED_CONVERSIONS');
+    });
+
+    it('should require traffic in every variation', () => {
+      const error = captureError(() =>
+        estimateRemainingRunTime({ variations: [{ visitors: 500, conversions: 50 }, { visitors: 0, conversions: 0 }], elapsedDays: 1 }, 0.1, 95)
+      );
+
+      expect(error.code).toBe('NO_OBSERVED_TRAFFIC');
+    });
+  });
+
+  describe('estimateHistoricalBaseline', () => {
+    const experiment = (controlVisitors: number, controlConversions: number, elapsedDays: number) => ({
+      variations: [
+        { visitors: controlVisitors, conversions: controlConversions },
+        { visitors: controlVisitors, conversions: controlConversions },
+      ],
+      elapsedDays,
+    });
+
+    it('should pool control conversion rates and take the median daily traffic', () => {
+      const baseline = estimateHistoricalBaseline([
+        experiment(10000, 1000, 20),
+        experiment(30000, 1500, 20),
+        experiment(5000, 500, 1),
+      ]);
+
+      expect(baseline.BCR).toBeCloseTo(3000 / 45000, 10);
+      expect(baseline.experiments.map((e) => e.dailyVisitors)).toEqual([1000, 3000, 10000]);
+      expect(baseline.dailyVisitors).toBe(3000);
+    });
+
+    it('should skip experiments without measured traffic', () => {
+      const baseline = estimateHistoricalBaseline([experiment(10000, 1000, 20), experiment(0, 0, 20)]);
+
+      expect(baseline.experiments).toHaveLength(1);
+      expect(baseline.dailyVisitors).toBe(1000);
+
+      const reordered = estimateHistoricalBaseline([experiment(0, 0, 20), experiment(10000, 1000, 20)]);
+      expect(reordered.experiments.map((e) => e.index)).toEqual([1]);
+    });
+
+    it('should fail when no experiment is usable', () => {
+      const error = captureError(() => estimateHistoricalBaseline([experiment(10000, 1000, 0)]));
+
+      expect(error.code).toBe('NO_HISTORICAL_EXPERIMENTS');
+    });
+  });
+
+  describe('estimateBayesianRunTime', () => {
+    it('should be reproducible for the same seed', () => {
+      const first = estimateBayesianRunTime(0.1, 0.1, 2, 1000, { simulations: 200, seed: 7 });
+      const second = estimateBayesianRunTime(0.1, 0.1, 2, 1000, { simulations: 200, seed: 7 });
+
+      expect(second).toEqual(first);
+      expect(first.percentiles.p50).toBe(first.days);
+      expect(first.percentiles.p90).toBeGreaterThanOrEqual(first.percentiles.p50 as number);
+    });
+
+    it('should take longer with a smaller loss threshold', () => {
+      const loose = estimateBayesianRunTime(0.1, 0.1, 2, 1000, { simulations: 200, lossThreshold: 0.01 });
+      const strict = estimateBayesianRunTime(0.1, 0.1, 2, 1000, { simulations: 200, lossThreshold: 0.0005 });
+
+      expect(strict.days as number).toBeGreaterThan(loose.days as number);
+      expect(strict.correctDecisionRate as number).toBeGreaterThan(loose.correctDecisionRate as number);
+    });
+
+    it('should mostly pick the variation carrying the MDE', () => {
+      const result = estimateBayesianRunTime(0.1, 0.1, 2, 1000, { simulations: 200 });
+
+      expect(result.stoppedWithinMaxRate).toBe(1);
+      expect(result.correctDecisionRate as number).toBeGreaterThan(0.9);
+      expect(result.absoluteLossThreshold).toBeCloseTo(0.0001, 10);
+    });
+
+    it('should report null days when most simulations run past the maximum', () => {
+      const result = estimateBayesianRunTime(0.01, 0.01, 2, 100, { simulations: 50, lossThreshold: 0.0001, maxDurationDays: 7 });
+
+      expect(result.days).toBeNull();
+      expect(result.stoppedWithinMaxRate).toBeLessThan(0.5);
+    });
+
+    it('should reject invalid priors', () => {
+      const error = captureError(() => estimateBayesianRunTime(0.1, 0.1, 2, 1000, { priorAlpha: 0 }));
+
+      expect(error.code).toBe('INVALID_PRIOR');
+    });
+
+    it('should lower the default simulations to fit long, many-arm designs and report the count', () => {
+      const result = estimateBayesianRunTime(0.1, 0.1, 10, 10000, { maxDurationDays: 365 });
+
+      expect(result.simulations).toBe(821);
+      expect(estimateBayesianRunTime(0.1, 0.1, 2, 10000).simulations).toBe(1000);
+
+      const error = captureError(() => estimateBayesianRunTime(0.1, 0.1, 50, 10000, { maxDurationDays: 365 }));
+      expect(error.code).toBe('SIMULATION_TOO_LARGE');
+      expect(error.message).toContain('Even the minimum of 200 simulations does not fit');
+    });
+
+    it('should cap simulations x days x variations so one request cannot block the server', () => {
+      const error = captureError(() =>
+        estimateBayesianRunTime(0.1, 0.1, 4, 1000, { simulations: 10000, maxDurationDays: 365 })
+      );
+
+      expect(error.code).toBe('SIMULATION_TOO_LARGE');
+      expect(error.message).toContain('Use at most 2054 simulations');
+      expect(captureError(() => estimateBayesianRunTime(0.1, 0.1, 2, 1000, { maxDurationDays: Infinity })).code).toBe(
+        'SIMULATION_TOO_LARGE'
+      );
+    });
+  });
+});
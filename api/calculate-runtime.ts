@@ -2,13 +2,76 @@
 Single Source of Truth for Experiment Duration
 ------------------------------------------------------
 BCR = Baseline Conversion Rate (decimal, e.g., 0.23 means 23%)
-MDE = relative effect (decimal, e.g., 0.06 means 6% relative to BCR)
+MDE = relative effect (decimal, e.g., 0.06 means 6% relative to BCR), or the
+      relative margin for non-inferiority and equivalence tests
 sigLevel = desired significance level as number (number, 90 for 90%, 95 for 95%, etc.)
 numVariations = number of variations being tested
 dailyVisitors = number of daily visitors
+power = optional statistical power (1 - beta) as number (80 for 80%), defaults to 80
+correction = optional multiple-comparison correction (none, bonferroni, sidak, fdr), defaults to none
+numMetrics = optional number of metrics each variation is evaluated on, defaults to 1
+variationWeights = optional traffic weights per variation (e.g. [80, 20]), defaults to an equal split
+cycleDays = optional business cycle to round the duration up to (7 or 14 days)
+weekdayTrafficProfile = optional relative traffic per weekday, Monday to Sunday
+startDate = optional ISO start date, used to align the weekday profile and report the end date
+rampSchedule = optional traffic ramp as { day, allocation } steps (allocation in percent of dailyVisitors)
+maxDurationDays = optional longest acceptable experiment in days, defaults to 365
+testType = optional superiority, non_inferiority or equivalence, defaults to superiority
+varianceReduction = optional share of variance removed by CUPED (0.3 = 30%)
+preExperimentCorrelation = optional correlation of the metric with its pre-period value,
+                           an alternative to varianceReduction (reduction = correlation^2)
 returns: estimated days for experiment to reach statsig
+
+estimateRunTime returns the same estimate together with the intermediate
+values (sample sizes, absolute MDE, alpha and the c1/c2/c3 rates) so callers
+can explain how the duration was derived. Alongside the Stats Engine style
+(sequential) estimate it reports a classic fixed-horizon two-proportion z-test
+sample size for the requested power, so both methodologies can be compared.
+
+estimateDetectableMDE inverts the calculation: given a day budget instead of
+an MDE it searches for the smallest relative MDE whose estimate fits the budget.
+estimateRequiredTraffic reuses the same sample estimate to return the daily
+visitors needed to finish within a target number of days.
+
+planRunTime and planContinuousRunTime apply the maxDurationDays policy without
+throwing: an estimate over the limit comes back as an infeasible result with
+the MDE or daily traffic that would fit.
+
+estimateRemainingRunTime starts from a running experiment instead of typed-in
+inputs: the control's conversion rate becomes BCR, visitors per elapsed day
+become dailyVisitors and the observed split becomes variationWeights. It
+reports the days still needed on top of the days already run.
+estimateHistoricalBaseline pools past experiments the same way to give
+default BCR and dailyVisitors for a new test on the same page.
+
+estimateBayesianRunTime is for teams using a Bayesian decision rule: with
+Beta priors on each arm's conversion rate it simulates daily traffic
+(variation 1 carrying the MDE, any others matching control) and reports how
+long until the expected loss of shipping the leading arm falls below a
+threshold. The simulation is seeded, so the same inputs always give the
+same answer.
+
+Non-inferiority and equivalence tests (testType) are for changes that should
+not move the metric, such as migrations or performance work. MDE is then the
+margin: non-inferiority shows the variation is no more than MDE worse than
+control, equivalence (two one-sided tests, TOST) that it is within MDE either
+way. Both are planned for no true difference. Each one-sided test runs at the
+full alpha, so the sequential estimate uses the two-sided formula at 2 * alpha,
+and for equivalence the fixed-horizon power is split between the two sides.
+
+With varianceReduction or preExperimentCorrelation the estimate assumes the
+analysis adjusts for a pre-experiment covariate (CUPED), which scales every
+variance by (1 - reduction). days and the sample sizes are then the adjusted
+values, and varianceReduction.unadjusted reports the same plan without CUPED
+so the saving is visible.
+
+estimateContinuousRunTime covers numeric metrics (revenue per visitor, AOV):
+instead of BCR it takes the baseline mean and standard deviation (or variance)
+of the metric, and MDE is relative to that mean.
 */
 
+import { normalCdf, normalPdf, normalQuantile, createRandom, sampleBinomial } from './statistics';
+
 export class CalculationError extends Error {
   code?: string;
   details?: any;
@@ -22,53 +85,398 @@ export class CalculationError extends Error {
   }
 }
 
+export type MetricType = 'binary' | 'continuous';
+
+export type CorrectionMethod = 'none' | 'bonferroni' | 'sidak' | 'fdr';
+
+export type TestType = 'superiority' | 'non_inferiority' | 'equivalence';
+
+export type RuntimeOptions = {
+  power?: number;
+  correction?: CorrectionMethod;
+  numMetrics?: number;
+  variationWeights?: number[];
+  cycleDays?: number;
+  weekdayTrafficProfile?: number[];
+  startDate?: string;
+  rampSchedule?: RampStep[];
+  maxDurationDays?: number;
+  testType?: TestType;
+  varianceReduction?: number;
+  preExperimentCorrelation?: number;
+};
+
+export type RampStep = {
+  day: number;
+  allocation: number;
+};
+
+export type TrafficSplit = {
+  shares: number[];
+  limitingVariationIndex: number;
+  limitingShare: number;
+};
+
+export type MultipleComparisonCorrection = {
+  method: CorrectionMethod;
+  numMetrics: number;
+  numComparisons: number;
+  unadjustedAlpha: number;
+  adjustedAlpha: number;
+  // How much the correction lengthens the sequential estimate (1 without one)
+  sampleSizeFactor: number;
+};
+
+export type VarianceReduction = {
+  // Share of the metric's variance removed by the covariate
+  ratio: number;
+  correlation?: number;
+  unadjusted: {
+    sampleSizePerVariation: number;
+    totalSampleSize: number;
+    fixedHorizonSampleSizePerVariation: number;
+    fixedHorizonTotalSampleSize: number;
+  };
+};
+
+export type VarianceReductionDuration = VarianceReduction & {
+  unadjusted: VarianceReduction['unadjusted'] & {
+    days: number;
+    rawDays: number;
+    fixedHorizonDays: number;
+  };
+};
+
+export type FixedHorizonSampleSize = {
+  power: number;
+  beta: number;
+  sampleSizePerVariation: number;
+  totalSampleSize: number;
+};
+
+export type FixedHorizonEstimate = FixedHorizonSampleSize & {
+  rawDays: number;
+  days: number;
+};
+
+export type SampleSizeEstimate = {
+  metricType: Extract<MetricType, 'binary'>;
+  testType: TestType;
+  sampleSizePerVariation: number;
+  totalSampleSize: number;
+  relativeMDE: number;
+  absoluteMDE: number;
+  BCR: number;
+  sigLevel: number;
+  alpha: number;
+  numVariations: number;
+  rates: {
+    c1: number;
+    c2: number;
+    c3: number;
+  };
+  correction: MultipleComparisonCorrection;
+  trafficSplit: TrafficSplit;
+  fixedHorizon: FixedHorizonSampleSize;
+  varianceReduction?: VarianceReduction;
+};
+
+export type ContinuousMetric = {
+  baselineMean: number;
+  standardDeviation?: number;
+  variance?: number;
+};
+
+export type ContinuousSampleSizeEstimate = {
+  metricType: Extract<MetricType, 'continuous'>;
+  testType: TestType;
+  sampleSizePerVariation: number;
+  totalSampleSize: number;
+  relativeMDE: number;
+  absoluteMDE: number;
+  baselineMean: number;
+  standardDeviation: number;
+  variance: number;
+  sigLevel: number;
+  alpha: number;
+  numVariations: number;
+  correction: MultipleComparisonCorrection;
+  trafficSplit: TrafficSplit;
+  fixedHorizon: FixedHorizonSampleSize;
+  varianceReduction?: VarianceReduction;
+};
+
+export type RuntimeSchedule = {
+  daysBeforeCycleRounding: number;
+  cycleDays?: number;
+  weekdayTrafficProfile?: number[];
+  startWeekday?: string;
+  rampSchedule?: RampStep[];
+  startDate?: string;
+  endDate?: string;
+};
+
+type RuntimeDuration = {
+  days: number;
+  rawDays: number;
+  dailyVisitors: number;
+  maxDurationDays: number;
+  schedule: RuntimeSchedule;
+  fixedHorizon: FixedHorizonEstimate;
+  varianceReduction?: VarianceReductionDuration;
+};
+
+export type RuntimeEstimate = Omit<SampleSizeEstimate, 'fixedHorizon' | 'varianceReduction'> & RuntimeDuration;
+
+export type ContinuousRuntimeEstimate = Omit<ContinuousSampleSizeEstimate, 'fixedHorizon' | 'varianceReduction'> &
+  RuntimeDuration;
+
+export type InfeasibleRuntimeEstimate = {
+  feasible: false;
+  estimatedDays: number;
+  maxDurationDays: number;
+  message: string;
+  suggestions: {
+    MDE?: number;
+    dailyVisitors?: number;
+  };
+};
+
+export type RuntimePlan<T> = (T & { feasible: true }) | InfeasibleRuntimeEstimate;
+
+export type DetectableMDEEstimate = {
+  detectableMDE: number;
+  absoluteMDE: number;
+  maxDays: number;
+  estimate: RuntimeEstimate;
+};
+
+export type RequiredTrafficEstimate = {
+  requiredDailyVisitors: number;
+  targetDays: number;
+  totalDailyTraffic?: number;
+  trafficAllocationPercent?: number;
+  exceedsAvailableTraffic?: boolean;
+  fixedHorizon: {
+    requiredDailyVisitors: number;
+    trafficAllocationPercent?: number;
+  };
+  sampleSize: SampleSizeEstimate;
+};
+
+export type ObservedVariation = {
+  visitors: number;
+  conversions: number;
+};
+
+export type ObservedExperiment = {
+  // Control first, in the experiment's variation order
+  variations: ObservedVariation[];
+  elapsedDays: number;
+};
+
+export type RemainingRuntimeEstimate = {
+  observedBCR: number;
+  observedDailyVisitors: number;
+  visitorsSoFar: number;
+  elapsedDays: number;
+  // null when the full estimate is over maxDurationDays
+  remainingDays: number | null;
+  estimate: RuntimePlan<RuntimeEstimate>;
+};
+
+export type HistoricalBaseline = {
+  // Pooled control conversion rate across the experiments
+  BCR: number;
+  // Median visitors per day across the experiments
+  dailyVisitors: number;
+  experiments: {
+    // Position in the history passed in, as unusable experiments are skipped
+    index: number;
+    BCR: number;
+    dailyVisitors: number;
+    visitors: number;
+    elapsedDays: number;
+  }[];
+};
+
+export type BayesianOptions = {
+  // Expected loss to accept, relative to BCR (0.001 = 0.1% of the baseline rate)
+  lossThreshold?: number;
+  priorAlpha?: number;
+  priorBeta?: number;
+  simulations?: number;
+  seed?: number;
+  maxDurationDays?: number;
+};
+
+export type BayesianRuntimeEstimate = {
+  method: 'expected_loss';
+  // Median stopping day, or null when most simulations run past maxDurationDays
+  days: number | null;
+  percentiles: {
+    p50: number | null;
+    p80: number | null;
+    p90: number | null;
+  };
+  stoppedWithinMaxRate: number;
+  // Share of stopped simulations that picked the variation carrying the MDE
+  correctDecisionRate: number | null;
+  lossThreshold: number;
+  absoluteLossThreshold: number;
+  prior: { alpha: number; beta: number };
+  simulations: number;
+  seed: number;
+  maxDurationDays: number;
+};
+
+const DEFAULT_POWER = 80;
+
+// Estimates longer than this fail with DURATION_TOO_LONG unless overridden
+export const DEFAULT_MAX_DURATION_DAYS = 365;
+
+// Bayesian defaults: uniform Beta(1, 1) priors and a loss of 0.1% of the baseline rate
+const DEFAULT_LOSS_THRESHOLD = 0.001;
+const DEFAULT_PRIOR = 1;
+const DEFAULT_SIMULATIONS = 1000;
+const MAX_SIMULATIONS = 10000;
+const DEFAULT_SIMULATION_SEED = 1;
+
+// The simulation runs inside the request, so simulations x maxDurationDays x
+// numVariations is capped at under a second of work. Without an explicit
+// simulations count the default is lowered to fit, down to this many runs.
+const MAX_SIMULATED_ARM_DAYS = 3000000;
+const MIN_DEFAULT_SIMULATIONS = 200;
+
+// Doublings tried when searching for traffic that fits the duration limit
+const MAX_TRAFFIC_DOUBLINGS = 60;
+
+// Weekday profiles are given Monday first, matching ISO weekday numbering
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Search precision for the relative MDE; results are reported to 4 decimals
+const MDE_SEARCH_TOLERANCE = 1e-6;
+const MDE_DECIMALS = 4;
+
 export function estimateRunTimeDays(
   BCR: number,
   MDE: number,
   sigLevel: number,
   numVariations: number,
-  dailyVisitors: number
+  dailyVisitors: number,
+  options: RuntimeOptions = {}
 ): number | null {
-  // Validate input parameters
-  if (typeof BCR !== 'number' || isNaN(BCR) || BCR <= 0 || BCR >= 1) {
-    throw new CalculationError(
-      `Baseline Conversion Rate (BCR) must be a number between 0 and 1 (exclusive). Received: ${BCR}. For example, use 0.05 for a 5% conversion rate.`,
-      'INVALID_BCR',
-      `BCR should be a decimal like 0.05 (5%) or 0.23 (23%), not a percentage like 5 or 23`
-    );
-  }
+  return estimateRunTime(BCR, MDE, sigLevel, numVariations, dailyVisitors, options).days;
+}
 
-  if (typeof MDE !== 'number' || isNaN(MDE) || MDE <= 0) {
-    throw new CalculationError(
-      `Minimum Detectable Effect (MDE) must be a positive number. Received: ${MDE}. For example, use 0.05 to detect a 5% relative improvement.`,
-      'INVALID_MDE',
-      `MDE should be a decimal like 0.05 (5% relative change) or 0.10 (10% relative change)`
-    );
-  }
+export function estimateRunTime(
+  BCR: number,
+  MDE: number,
+  sigLevel: number,
+  numVariations: number,
+  dailyVisitors: number,
+  options: RuntimeOptions = {}
+): RuntimeEstimate {
+  const { estimate, rawTotalSampleSize } = computeSampleSize(BCR, MDE, sigLevel, numVariations, options);
+  return withDuration(estimate, rawTotalSampleSize, dailyVisitors, options);
+}
 
-  if (typeof sigLevel !== 'number' || isNaN(sigLevel) || sigLevel <= 0 || sigLevel >= 100) {
-    throw new CalculationError(
-      `Significance Level must be a number between 0 and 100 (exclusive). Received: ${sigLevel}. Common values are 90, 95, or 99.`,
-      'INVALID_SIGNIFICANCE_LEVEL',
-      `Use values like 95 for 95% confidence level, not 0.95`
-    );
-  }
+export function estimateSampleSize(
+  BCR: number,
+  MDE: number,
+  sigLevel: number,
+  numVariations: number,
+  options: RuntimeOptions = {}
+): SampleSizeEstimate {
+  return computeSampleSize(BCR, MDE, sigLevel, numVariations, options).estimate;
+}
 
-  if (typeof numVariations !== 'number' || isNaN(numVariations) || numVariations < 2 || !Number.isInteger(numVariations)) {
-    throw new CalculationError(
-      `Number of Variations must be an integer of 2 or more. Received: ${numVariations}. This includes the control plus all test variations.`,
-      'INVALID_NUM_VARIATIONS',
-      `For an A/B test use 2 (control + 1 variation), for A/B/C test use 3, etc.`
-    );
-  }
+export function estimateContinuousRunTime(
+  metric: ContinuousMetric,
+  MDE: number,
+  sigLevel: number,
+  numVariations: number,
+  dailyVisitors: number,
+  options: RuntimeOptions = {}
+): ContinuousRuntimeEstimate {
+  const { estimate, rawTotalSampleSize } = computeContinuousSampleSize(metric, MDE, sigLevel, numVariations, options);
+  return withDuration(estimate, rawTotalSampleSize, dailyVisitors, options);
+}
 
-  if (typeof dailyVisitors !== 'number' || isNaN(dailyVisitors) || dailyVisitors <= 0) {
-    throw new CalculationError(
-      `Daily Visitors must be a positive number. Received: ${dailyVisitors}. This should be the number of visitors per day that will be included in the experiment.`,
-      'INVALID_DAILY_VISITORS',
-      `Use the actual number of daily visitors, like 1000 or 5000`
-    );
-  }
+export function estimateContinuousSampleSize(
+  metric: ContinuousMetric,
+  MDE: number,
+  sigLevel: number,
+  numVariations: number,
+  options: RuntimeOptions = {}
+): ContinuousSampleSizeEstimate {
+  return computeContinuousSampleSize(metric, MDE, sigLevel, numVariations, options).estimate;
+}
+
+// Like estimateRunTime, but an estimate over maxDurationDays is returned as
+// an infeasible result with the MDE or daily traffic that would fit the limit,
+// instead of throwing DURATION_TOO_LONG.
+export function planRunTime(
+  BCR: number,
+  MDE: number,
+  sigLevel: number,
+  numVariations: number,
+  dailyVisitors: number,
+  options: RuntimeOptions = {}
+): RuntimePlan<RuntimeEstimate> {
+  // Largest MDE that keeps both c2 >= 0 and c3 < 1
+  const maxMDE = Math.min(1, ((1 - BCR) / BCR) * 0.9999);
+
+  return planWithinLimit(
+    (mde, visitors, limitOptions) => estimateRunTime(BCR, mde, sigLevel, numVariations, visitors, limitOptions),
+    MDE,
+    dailyVisitors,
+    maxMDE,
+    options
+  );
+}
+
+export function planContinuousRunTime(
+  metric: ContinuousMetric,
+  MDE: number,
+  sigLevel: number,
+  numVariations: number,
+  dailyVisitors: number,
+  options: RuntimeOptions = {}
+): RuntimePlan<ContinuousRuntimeEstimate> {
+  // Continuous metrics have no natural ceiling; stop searching at a 10x change
+  const maxMDE = 10;
+
+  return planWithinLimit(
+    (mde, visitors, limitOptions) =>
+      estimateContinuousRunTime(metric, mde, sigLevel, numVariations, visitors, limitOptions),
+    MDE,
+    dailyVisitors,
+    maxMDE,
+    options
+  );
+}
+
+// Shared by every binary estimate: validates the test design and returns the
+// sample sizes, keeping the unrounded sequential total so durations match exactly.
+function computeSampleSize(
+  BCR: number,
+  MDE: number,
+  sigLevel: number,
+  numVariations: number,
+  options: RuntimeOptions
+): { estimate: SampleSizeEstimate; rawTotalSampleSize: number } {
+  const { power = DEFAULT_POWER } = options;
+
+  // Validate input parameters
+  validateBCR(BCR);
+
+  validateDesign(MDE, sigLevel, numVariations, power);
+  const testType = resolveTestType(sigLevel, options);
+  const correction = correctAlpha(sigLevel, numVariations, options);
+  const { trafficSplit, sampleMultiplier } = resolveTrafficSplit(numVariations, options);
+  const reduction = resolveVarianceReduction(options);
+  const varianceFactor = 1 - (reduction ? reduction.ratio : 0);
 
   try {
     // Compute absolute MDE
@@ -88,12 +496,15 @@ export function estimateRunTimeDays(
       );
     }
 
-    // alpha is a decimal
-    const alpha = 1 - sigLevel / 100;
+    // alpha is a decimal, adjusted for the number of comparisons
+    const alpha = correction.adjustedAlpha;
 
-    // variance estimates
-    const variance1 = c1 * (1 - c1) + c2 * (1 - c2);
-    const variance2 = c1 * (1 - c1) + c3 * (1 - c3);
+    // variance estimates, scaled down when the analysis uses CUPED
+    const variance1 = (c1 * (1 - c1) + c2 * (1 - c2)) * varianceFactor;
+    const variance2 = (c1 * (1 - c1) + c3 * (1 - c3)) * varianceFactor;
+
+    // Margin tests are planned for no true difference, so both arms sit at c1
+    const noDifferenceVariance = 2 * c1 * (1 - c1) * varianceFactor;
 
     // theta is the absolute difference
     const theta = Math.abs(absoluteMDE);
@@ -107,56 +518,182 @@ export function estimateRunTimeDays(
     }
 
     // sample estimates
-    const sampleEstimate1 =
-      (2 * (1 - alpha) * variance1 * Math.log(1 + Math.sqrt(variance1) / theta)) /
-      (theta * theta);
-
+    const sequentialAlpha = testType === 'superiority' ? alpha : 2 * alpha;
+    const sampleEstimate1 = sequentialSampleEstimate(
+      testType === 'superiority' ? variance1 : Math.max(variance1, noDifferenceVariance),
+      theta,
+      sequentialAlpha
+    );
     const sampleEstimate2 =
-      (2 * (1 - alpha) * variance2 * Math.log(1 + Math.sqrt(variance2) / theta)) /
-      (theta * theta);
+      testType === 'non_inferiority' ? 0 : sequentialSampleEstimate(variance2, theta, sequentialAlpha);
 
-    // final sample size is the max of these two
+    // final sample size is the max of these two, lengthened by any correction
     let sampleEstimate;
     if (Math.abs(sampleEstimate1) >= Math.abs(sampleEstimate2)) {
       sampleEstimate = sampleEstimate1;
     } else {
       sampleEstimate = sampleEstimate2;
     }
+    sampleEstimate *= correction.sampleSizeFactor;
 
-    // Check for invalid calculations
-    if (!isFinite(sampleEstimate) || isNaN(sampleEstimate)) {
-      throw new CalculationError(
-        `Statistical calculation resulted in invalid values. This could be due to extreme parameter values. Please check your inputs and try with more moderate values.`,
-        'CALCULATION_OVERFLOW',
-        `Parameters: BCR=${BCR}, MDE=${MDE}, sigLevel=${sigLevel}, numVariations=${numVariations}, dailyVisitors=${dailyVisitors}`
-      );
-    }
+    checkSampleEstimate(sampleEstimate, `Parameters: BCR=${BCR}, MDE=${MDE}, sigLevel=${sigLevel}, numVariations=${numVariations}`);
 
-    if (sampleEstimate < 0) {
+    // Non-inferiority only tests the lower margin, so c3 may exceed 1
+    if (c3 >= 1 && testType !== 'non_inferiority') {
       throw new CalculationError(
-        `Statistical calculation resulted in negative sample size. This typically indicates incompatible parameter values. Please review your BCR, MDE, and significance level.`,
-        'NEGATIVE_SAMPLE_SIZE',
-        `Calculated sample estimate: ${sampleEstimate}`
+        `The Minimum Detectable Effect is too large relative to the Baseline Conversion Rate (${c1}). This would result in a conversion rate of 100% or more. Please use a smaller MDE or check your BCR value.`,
+        'MDE_TOO_LARGE',
+        `An improved conversion rate of ${c3.toFixed(4)} is not a valid probability`
       );
     }
 
-    // Multiply by numVariations, then divide by dailyVisitors to get days
-    const totalSampleSize = sampleEstimate * numVariations;
-    const days = totalSampleSize / dailyVisitors;
+    // Fixed-horizon z-test compares the baseline c1 against the improved rate c3,
+    // using the pooled variance under the null hypothesis. Margin tests take
+    // the null at the margin(s) and the alternative at no difference.
+    const pooled = (c1 + c3) / 2;
+    const fixedHorizon =
+      testType === 'superiority'
+        ? fixedHorizonSampleSize(
+            2 * pooled * (1 - pooled) * varianceFactor,
+            variance2,
+            theta,
+            alpha,
+            power,
+            sampleMultiplier,
+            testType
+          )
+        : fixedHorizonSampleSize(
+            testType === 'equivalence' ? Math.max(variance1, variance2) : variance1,
+            noDifferenceVariance,
+            theta,
+            alpha,
+            power,
+            sampleMultiplier,
+            testType
+          );
 
-    // Round up to nearest integer
-    const estimatedDays = Math.ceil(days);
+    // Every arm needs sampleEstimate visitors, so the smallest arm sets the total
+    const totalSampleSize = sampleEstimate * sampleMultiplier;
 
-    // Sanity check for extremely long experiments
-    if (estimatedDays > 365) {
-      throw new CalculationError(
-        `Calculated experiment duration is ${estimatedDays} days (over 1 year). This suggests the effect size is too small to detect with the given traffic, or the parameters need adjustment. Consider increasing the MDE, lowering the significance level, or increasing daily visitors.`,
-        'DURATION_TOO_LONG',
-        `With ${dailyVisitors} daily visitors, detecting a ${(MDE * 100).toFixed(1)}% relative change at ${sigLevel}% confidence would take ${estimatedDays} days`
-      );
+    return {
+      estimate: {
+        metricType: 'binary',
+        testType,
+        sampleSizePerVariation: Math.ceil(sampleEstimate),
+        totalSampleSize: Math.ceil(totalSampleSize),
+        relativeMDE: MDE,
+        absoluteMDE,
+        BCR,
+        sigLevel,
+        alpha,
+        numVariations,
+        rates: { c1, c2, c3 },
+        correction,
+        trafficSplit,
+        fixedHorizon,
+        varianceReduction:
+          reduction &&
+          summarizeVarianceReduction(
+            reduction,
+            computeSampleSize(BCR, MDE, sigLevel, numVariations, withoutVarianceReduction(options)).estimate
+          ),
+      },
+      rawTotalSampleSize: totalSampleSize,
+    };
+  } catch (error) {
+    if (error instanceof CalculationError) {
+      throw error;
     }
+    throw new CalculationError(
+      `Unexpected error during runtime calculation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'CALCULATION_ERROR',
+      `Parameters: BCR=${BCR}, MDE=${MDE}, sigLevel=${sigLevel}, numVariations=${numVariations}`
+    );
+  }
+}
+
+// Continuous metrics (revenue per visitor, AOV): each arm contributes sigma^2
+// to the variance of the difference, in place of c(1 - c) for conversions.
+function computeContinuousSampleSize(
+  metric: ContinuousMetric,
+  MDE: number,
+  sigLevel: number,
+  numVariations: number,
+  options: RuntimeOptions
+): { estimate: ContinuousSampleSizeEstimate; rawTotalSampleSize: number } {
+  const { power = DEFAULT_POWER } = options;
+  const { baselineMean } = metric;
+
+  if (typeof baselineMean !== 'number' || !isFinite(baselineMean) || baselineMean <= 0) {
+    throw new CalculationError(
+      `Baseline Mean must be a positive number. Received: ${baselineMean}. This is the current average value of the metric per visitor or order, e.g. 42.5 for $42.50 average order value.`,
+      'INVALID_BASELINE_MEAN',
+      `Use the metric's current average in its own units, like 3.2 (revenue per visitor) or 85 (AOV)`
+    );
+  }
+
+  const standardDeviation = resolveStandardDeviation(metric);
+
+  validateDesign(MDE, sigLevel, numVariations, power);
+  const testType = resolveTestType(sigLevel, options);
+  const correction = correctAlpha(sigLevel, numVariations, options);
+  const { trafficSplit, sampleMultiplier } = resolveTrafficSplit(numVariations, options);
+  const reduction = resolveVarianceReduction(options);
+
+  try {
+    const absoluteMDE = baselineMean * MDE;
+    const theta = Math.abs(absoluteMDE);
+    const alpha = correction.adjustedAlpha;
+    const variance = standardDeviation * standardDeviation;
+
+    // Variance of the difference between two arms, after any CUPED adjustment
+    const differenceVariance = 2 * variance * (1 - (reduction ? reduction.ratio : 0));
 
-    return estimatedDays;
+    const sampleEstimate =
+      sequentialSampleEstimate(differenceVariance, theta, testType === 'superiority' ? alpha : 2 * alpha) *
+      correction.sampleSizeFactor;
+
+    checkSampleEstimate(
+      sampleEstimate,
+      `Parameters: baselineMean=${baselineMean}, standardDeviation=${standardDeviation}, MDE=${MDE}, sigLevel=${sigLevel}, numVariations=${numVariations}`
+    );
+
+    const totalSampleSize = sampleEstimate * sampleMultiplier;
+
+    return {
+      estimate: {
+        metricType: 'continuous',
+        testType,
+        sampleSizePerVariation: Math.ceil(sampleEstimate),
+        totalSampleSize: Math.ceil(totalSampleSize),
+        relativeMDE: MDE,
+        absoluteMDE,
+        baselineMean,
+        standardDeviation,
+        variance,
+        sigLevel,
+        alpha,
+        numVariations,
+        correction,
+        trafficSplit,
+        fixedHorizon: fixedHorizonSampleSize(
+          differenceVariance,
+          differenceVariance,
+          theta,
+          alpha,
+          power,
+          sampleMultiplier,
+          testType
+        ),
+        varianceReduction:
+          reduction &&
+          summarizeVarianceReduction(
+            reduction,
+            computeContinuousSampleSize(metric, MDE, sigLevel, numVariations, withoutVarianceReduction(options)).estimate
+          ),
+      },
+      rawTotalSampleSize: totalSampleSize,
+    };
   } catch (error) {
     if (error instanceof CalculationError) {
       throw error;
@@ -164,7 +701,1165 @@ export function estimateRunTimeDays(
     throw new CalculationError(
       `Unexpected error during runtime calculation: ${error instanceof Error ? error.message : 'Unknown error'}`,
       'CALCULATION_ERROR',
-      `Parameters: BCR=${BCR}, MDE=${MDE}, sigLevel=${sigLevel}, numVariations=${numVariations}, dailyVisitors=${dailyVisitors}`
+      `Parameters: baselineMean=${baselineMean}, standardDeviation=${standardDeviation}, MDE=${MDE}, sigLevel=${sigLevel}, numVariations=${numVariations}`
+    );
+  }
+}
+
+function resolveStandardDeviation(metric: ContinuousMetric): number {
+  const { standardDeviation, variance } = metric;
+
+  if (standardDeviation === undefined && variance === undefined) {
+    throw new CalculationError(
+      `Either Standard Deviation or Variance is required for a continuous metric.`,
+      'INVALID_STANDARD_DEVIATION',
+      `Provide the standard deviation of the metric per visitor, e.g. 12.3, or its variance`
+    );
+  }
+
+  if (
+    standardDeviation !== undefined &&
+    (typeof standardDeviation !== 'number' || !isFinite(standardDeviation) || standardDeviation <= 0)
+  ) {
+    throw new CalculationError(
+      `Standard Deviation must be a positive number. Received: ${standardDeviation}.`,
+      'INVALID_STANDARD_DEVIATION',
+      `Use the standard deviation of the metric in its own units, like 12.3`
+    );
+  }
+
+  if (variance !== undefined && (typeof variance !== 'number' || !isFinite(variance) || variance <= 0)) {
+    throw new CalculationError(
+      `Variance must be a positive number. Received: ${variance}.`,
+      'INVALID_STANDARD_DEVIATION',
+      `Use the variance of the metric (the standard deviation squared), like 151.3`
+    );
+  }
+
+  if (standardDeviation !== undefined && variance !== undefined) {
+    if (Math.abs(standardDeviation * standardDeviation - variance) > 1e-6 * variance) {
+      throw new CalculationError(
+        `Standard Deviation (${standardDeviation}) and Variance (${variance}) do not agree. Provide only one of them.`,
+        'INVALID_STANDARD_DEVIATION',
+        `A standard deviation of ${standardDeviation} implies a variance of ${standardDeviation * standardDeviation}`
+      );
+    }
+  }
+
+  return standardDeviation !== undefined ? standardDeviation : Math.sqrt(variance as number);
+}
+
+function validateDesign(MDE: number, sigLevel: number, numVariations: number, power: number): void {
+  validateMDE(MDE);
+
+  if (typeof sigLevel !== 'number' || isNaN(sigLevel) || sigLevel <= 0 || sigLevel >= 100) {
+    throw new CalculationError(
+      `Significance Level must be a number between 0 and 100 (exclusive). Received: ${sigLevel}. Common values are 90, 95, or 99.`,
+      'INVALID_SIGNIFICANCE_LEVEL',
+      `Use values like 95 for 95% confidence level, not 0.95`
+    );
+  }
+
+  validateNumVariations(numVariations);
+
+  if (typeof power !== 'number' || isNaN(power) || power <= 0 || power >= 100) {
+    throw new CalculationError(
+      `Statistical Power must be a number between 0 and 100 (exclusive). Received: ${power}. Common values are 80 or 90.`,
+      'INVALID_POWER',
+      `Use values like 80 for 80% power, not 0.8`
+    );
+  }
+}
+
+function resolveVarianceReduction(options: RuntimeOptions): { ratio: number; correlation?: number } | undefined {
+  const { varianceReduction, preExperimentCorrelation } = options;
+
+  if (varianceReduction !== undefined && preExperimentCorrelation !== undefined) {
+    throw new CalculationError(
+      `Provide either Variance Reduction or Pre-Experiment Correlation, not both. Received: varianceReduction=${varianceReduction}, preExperimentCorrelation=${preExperimentCorrelation}.`,
+      'INVALID_VARIANCE_REDUCTION',
+      `A correlation of ${preExperimentCorrelation} corresponds to a variance reduction of ${
+        typeof preExperimentCorrelation === 'number' ? preExperimentCorrelation * preExperimentCorrelation : 'its square'
+      }`
+    );
+  }
+
+  if (varianceReduction !== undefined) {
+    if (typeof varianceReduction !== 'number' || isNaN(varianceReduction) || varianceReduction < 0 || varianceReduction >= 1) {
+      throw new CalculationError(
+        `Variance Reduction must be a number from 0 up to (but not including) 1. Received: ${varianceReduction}. For example, use 0.3 when CUPED removes 30% of the variance.`,
+        'INVALID_VARIANCE_REDUCTION',
+        `Typical CUPED reductions are 0.1 to 0.5, depending on how well pre-period behaviour predicts the metric`
+      );
+    }
+    return { ratio: varianceReduction };
+  }
+
+  if (preExperimentCorrelation !== undefined) {
+    if (
+      typeof preExperimentCorrelation !== 'number' ||
+      isNaN(preExperimentCorrelation) ||
+      preExperimentCorrelation <= -1 ||
+      preExperimentCorrelation >= 1
+    ) {
+      throw new CalculationError(
+        `Pre-Experiment Correlation must be a number between -1 and 1 (exclusive). Received: ${preExperimentCorrelation}.`,
+        'INVALID_VARIANCE_REDUCTION',
+        `Use the correlation between each visitor's metric in the pre-period and during the test, e.g. 0.5`
+      );
+    }
+    return { ratio: preExperimentCorrelation * preExperimentCorrelation, correlation: preExperimentCorrelation };
+  }
+
+  return undefined;
+}
+
+function withoutVarianceReduction(options: RuntimeOptions): RuntimeOptions {
+  return { ...options, varianceReduction: undefined, preExperimentCorrelation: undefined };
+}
+
+function summarizeVarianceReduction(
+  reduction: { ratio: number; correlation?: number },
+  unadjusted: { sampleSizePerVariation: number; totalSampleSize: number; fixedHorizon: FixedHorizonSampleSize }
+): VarianceReduction {
+  return {
+    ...reduction,
+    unadjusted: {
+      sampleSizePerVariation: unadjusted.sampleSizePerVariation,
+      totalSampleSize: unadjusted.totalSampleSize,
+      fixedHorizonSampleSizePerVariation: unadjusted.fixedHorizon.sampleSizePerVariation,
+      fixedHorizonTotalSampleSize: unadjusted.fixedHorizon.totalSampleSize,
+    },
+  };
+}
+
+function resolveTestType(sigLevel: number, options: RuntimeOptions): TestType {
+  const { testType = 'superiority' } = options;
+
+  if (!['superiority', 'non_inferiority', 'equivalence'].includes(testType)) {
+    throw new CalculationError(
+      `Test Type must be one of superiority, non_inferiority or equivalence. Received: ${testType}.`,
+      'INVALID_TEST_TYPE',
+      `Use superiority to detect an improvement, non_inferiority to show a change is not worse by more than the margin, or equivalence to show it is within the margin either way`
+    );
+  }
+
+  // Margin tests plan at 2 * alpha, which has to stay below 1
+  if (testType !== 'superiority' && sigLevel <= 50) {
+    throw new CalculationError(
+      `Significance Level must be above 50 for ${testType} tests. Received: ${sigLevel}.`,
+      'INVALID_SIGNIFICANCE_LEVEL',
+      `Non-inferiority and equivalence tests commonly use 95`
+    );
+  }
+
+  return testType;
+}
+
+function validateBCR(BCR: number): void {
+  if (typeof BCR !== 'number' || isNaN(BCR) || BCR <= 0 || BCR >= 1) {
+    throw new CalculationError(
+      `Baseline Conversion Rate (BCR) must be a number between 0 and 1 (exclusive). Received: ${BCR}. For example, use 0.05 for a 5% conversion rate.`,
+      'INVALID_BCR',
+      `BCR should be a decimal like 0.05 (5%) or 0.23 (23%), not a percentage like 5 or 23`
+    );
+  }
+}
+
+function validateMDE(MDE: number): void {
+  if (typeof MDE !== 'number' || isNaN(MDE) || MDE <= 0) {
+    throw new CalculationError(
+      `Minimum Detectable Effect (MDE) must be a positive number. Received: ${MDE}. For example, use 0.05 to detect a 5% relative improvement.`,
+      'INVALID_MDE',
+      `MDE should be a decimal like 0.05 (5% relative change) or 0.10 (10% relative change)`
+    );
+  }
+}
+
+function validateNumVariations(numVariations: number): void {
+  if (typeof numVariations !== 'number' || isNaN(numVariations) || numVariations < 2 || !Number.isInteger(numVariations)) {
+    throw new CalculationError(
+      `Number of Variations must be an integer of 2 or more. Received: ${numVariations}. This includes the control plus all test variations.`,
+      'INVALID_NUM_VARIATIONS',
+      `For an A/B test use 2 (control + 1 variation), for A/B/C test use 3, etc.`
     );
   }
 }
+
+function validateDailyVisitors(dailyVisitors: number): void {
+  if (typeof dailyVisitors !== 'number' || isNaN(dailyVisitors) || dailyVisitors <= 0) {
+    throw new CalculationError(
+      `Daily Visitors must be a positive number. Received: ${dailyVisitors}. This should be the number of visitors per day that will be included in the experiment.`,
+      'INVALID_DAILY_VISITORS',
+      `Use the actual number of daily visitors, like 1000 or 5000`
+    );
+  }
+}
+
+function validateCycleDays(cycleDays?: number): void {
+  if (cycleDays !== undefined && (typeof cycleDays !== 'number' || !Number.isInteger(cycleDays) || cycleDays < 1)) {
+    throw new CalculationError(
+      `Cycle Days must be a positive whole number of days. Received: ${cycleDays}. Use 7 to run full weeks or 14 for two-week business cycles.`,
+      'INVALID_CYCLE_DAYS',
+      `Common values are 7 (one week) or 14 (two weeks)`
+    );
+  }
+}
+
+function validateMaxDuration(maxDurationDays: number): void {
+  if (typeof maxDurationDays !== 'number' || isNaN(maxDurationDays) || maxDurationDays <= 0) {
+    throw new CalculationError(
+      `Maximum Duration must be a positive number of days. Received: ${maxDurationDays}. This is the longest experiment your organization is willing to run.`,
+      'INVALID_MAX_DURATION',
+      `Common policies are 28, 56 or 90 days`
+    );
+  }
+}
+
+// Each treatment is compared against control on every metric, so an A/B/n
+// test with k metrics makes (numVariations - 1) * k comparisons. The FDR
+// option plans for Benjamini-Hochberg using the average of its step-up
+// thresholds, alpha * (m + 1) / (2m), which sits between no correction and
+// Bonferroni. The sequential sample estimate only scales with (1 - alpha), so
+// on its own the correction would barely move the headline days. It is
+// inflated by sampleSizeFactor instead, the ratio of the fixed-horizon z-test
+// sample sizes at the adjusted and unadjusted alpha, so corrected estimates
+// lengthen in step with the classic test.
+function correctAlpha(
+  sigLevel: number,
+  numVariations: number,
+  options: RuntimeOptions
+): MultipleComparisonCorrection {
+  const { correction: method = 'none', numMetrics = 1 } = options;
+
+  if (!['none', 'bonferroni', 'sidak', 'fdr'].includes(method)) {
+    throw new CalculationError(
+      `Correction Method must be one of none, bonferroni, sidak or fdr. Received: ${method}.`,
+      'INVALID_CORRECTION',
+      `Use bonferroni or sidak for strict family-wise error control, or fdr for false discovery rate control`
+    );
+  }
+
+  if (typeof numMetrics !== 'number' || isNaN(numMetrics) || numMetrics < 1 || !Number.isInteger(numMetrics)) {
+    throw new CalculationError(
+      `Number of Metrics must be an integer of 1 or more. Received: ${numMetrics}. This is the number of metrics each variation is evaluated on.`,
+      'INVALID_NUM_METRICS',
+      `Use 1 for a single primary metric, or count every metric you will make a decision on`
+    );
+  }
+
+  const unadjustedAlpha = 1 - sigLevel / 100;
+  const numComparisons = (numVariations - 1) * numMetrics;
+
+  let adjustedAlpha = unadjustedAlpha;
+  if (method === 'bonferroni') {
+    adjustedAlpha = unadjustedAlpha / numComparisons;
+  } else if (method === 'sidak') {
+    adjustedAlpha = 1 - Math.pow(1 - unadjustedAlpha, 1 / numComparisons);
+  } else if (method === 'fdr') {
+    adjustedAlpha = (unadjustedAlpha * (numComparisons + 1)) / (2 * numComparisons);
+  }
+
+  return {
+    method,
+    numMetrics,
+    numComparisons,
+    unadjustedAlpha,
+    adjustedAlpha,
+    sampleSizeFactor: correctionSampleSizeFactor(unadjustedAlpha, adjustedAlpha, options),
+  };
+}
+
+function correctionSampleSizeFactor(unadjustedAlpha: number, adjustedAlpha: number, options: RuntimeOptions): number {
+  if (adjustedAlpha >= unadjustedAlpha) {
+    return 1;
+  }
+
+  const { power = DEFAULT_POWER, testType = 'superiority' } = options;
+  const beta = 1 - power / 100;
+  const zAlpha = (alpha: number) => normalQuantile(testType === 'superiority' ? 1 - alpha / 2 : 1 - alpha);
+  const zBeta = normalQuantile(testType === 'equivalence' ? 1 - beta / 2 : 1 - beta);
+
+  return Math.pow((zAlpha(adjustedAlpha) + zBeta) / (zAlpha(unadjustedAlpha) + zBeta), 2);
+}
+
+// With an equal split the total sample is sampleEstimate * numVariations. With
+// custom weights (e.g. an 80/20 control-heavy rollout) the smallest arm is the
+// bottleneck: it must still collect sampleEstimate visitors, so the total is
+// sampleEstimate / limitingShare.
+function resolveTrafficSplit(
+  numVariations: number,
+  options: RuntimeOptions
+): { trafficSplit: TrafficSplit; sampleMultiplier: number } {
+  const { variationWeights } = options;
+
+  if (variationWeights === undefined) {
+    return {
+      trafficSplit: {
+        shares: Array(numVariations).fill(1 / numVariations),
+        limitingVariationIndex: 0,
+        limitingShare: 1 / numVariations,
+      },
+      sampleMultiplier: numVariations,
+    };
+  }
+
+  if (
+    !Array.isArray(variationWeights) ||
+    variationWeights.length !== numVariations ||
+    variationWeights.some((weight) => typeof weight !== 'number' || !isFinite(weight) || weight <= 0)
+  ) {
+    throw new CalculationError(
+      `Variation Weights must be a list of ${numVariations} positive numbers, one per variation including control. Received: ${JSON.stringify(variationWeights)}.`,
+      'INVALID_VARIATION_WEIGHTS',
+      `Use the same weights as the experiment configuration, e.g. [80, 20] or [5000, 5000]`
+    );
+  }
+
+  const totalWeight = variationWeights.reduce((sum, weight) => sum + weight, 0);
+  const minWeight = Math.min(...variationWeights);
+
+  return {
+    trafficSplit: {
+      shares: variationWeights.map((weight) => weight / totalWeight),
+      limitingVariationIndex: variationWeights.indexOf(minWeight),
+      limitingShare: minWeight / totalWeight,
+    },
+    sampleMultiplier: totalWeight / minWeight,
+  };
+}
+
+// Stats Engine style (sequential) sample estimate per variation
+function sequentialSampleEstimate(variance: number, theta: number, alpha: number): number {
+  return (2 * (1 - alpha) * variance * Math.log(1 + Math.sqrt(variance) / theta)) / (theta * theta);
+}
+
+// Classic fixed-horizon sample size for a two-sided z-test of the difference
+// between two arms, given the variance of that difference under H0 and H1.
+// Margin tests are one-sided at alpha; equivalence has to pass both sides, so
+// each side gets half of beta.
+function fixedHorizonSampleSize(
+  nullVariance: number,
+  alternativeVariance: number,
+  theta: number,
+  alpha: number,
+  power: number,
+  sampleMultiplier: number,
+  testType: TestType
+): FixedHorizonSampleSize {
+  const beta = 1 - power / 100;
+  const zAlpha = normalQuantile(testType === 'superiority' ? 1 - alpha / 2 : 1 - alpha);
+  const zBeta = normalQuantile(testType === 'equivalence' ? 1 - beta / 2 : 1 - beta);
+
+  const numerator = zAlpha * Math.sqrt(nullVariance) + zBeta * Math.sqrt(alternativeVariance);
+  const sampleSizePerVariation = Math.ceil((numerator * numerator) / (theta * theta));
+
+  return {
+    power,
+    beta,
+    sampleSizePerVariation,
+    totalSampleSize: Math.ceil(sampleSizePerVariation * sampleMultiplier),
+  };
+}
+
+function checkSampleEstimate(sampleEstimate: number, parameters: string): void {
+  // Check for invalid calculations
+  if (!isFinite(sampleEstimate) || isNaN(sampleEstimate)) {
+    throw new CalculationError(
+      `Statistical calculation resulted in invalid values. This could be due to extreme parameter values. Please check your inputs and try with more moderate values.`,
+      'CALCULATION_OVERFLOW',
+      parameters
+    );
+  }
+
+  if (sampleEstimate < 0) {
+    throw new CalculationError(
+      `Statistical calculation resulted in negative sample size. This typically indicates incompatible parameter values. Please review your BCR, MDE, and significance level.`,
+      'NEGATIVE_SAMPLE_SIZE',
+      `Calculated sample estimate: ${sampleEstimate}`
+    );
+  }
+}
+
+function planWithinLimit<T extends { days: number }>(
+  estimateFor: (MDE: number, dailyVisitors: number, options: RuntimeOptions) => T,
+  MDE: number,
+  dailyVisitors: number,
+  maxMDE: number,
+  options: RuntimeOptions
+): RuntimePlan<T> {
+  const { maxDurationDays = DEFAULT_MAX_DURATION_DAYS } = options;
+
+  try {
+    return { feasible: true, ...estimateFor(MDE, dailyVisitors, options) };
+  } catch (error) {
+    if (!(error instanceof CalculationError) || error.code !== 'DURATION_TOO_LONG') {
+      throw error;
+    }
+
+    const fits = (mde: number, visitors: number): boolean => {
+      try {
+        estimateFor(mde, visitors, options);
+        return true;
+      } catch (fitError) {
+        if (fitError instanceof CalculationError && ['DURATION_TOO_LONG', 'MDE_TOO_LARGE'].includes(fitError.code || '')) {
+          return false;
+        }
+        throw fitError;
+      }
+    };
+
+    const unlimited = estimateFor(MDE, dailyVisitors, { ...options, maxDurationDays: Infinity });
+
+    return {
+      feasible: false,
+      estimatedDays: unlimited.days,
+      maxDurationDays,
+      message: error.message,
+      suggestions: {
+        MDE: suggestMDE((mde) => fits(mde, dailyVisitors), MDE, maxMDE),
+        dailyVisitors: suggestDailyVisitors((visitors) => fits(MDE, visitors), dailyVisitors),
+      },
+    };
+  }
+}
+
+// Smallest MDE (to 4 decimals) that fits, or undefined if even maxMDE does not
+function suggestMDE(fits: (MDE: number) => boolean, MDE: number, maxMDE: number): number | undefined {
+  if (!fits(maxMDE)) {
+    return undefined;
+  }
+
+  let low = MDE;
+  let high = maxMDE;
+  while (high - low > MDE_SEARCH_TOLERANCE) {
+    const mid = (low + high) / 2;
+    if (fits(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  const factor = Math.pow(10, MDE_DECIMALS);
+  const rounded = Math.ceil(high * factor) / factor;
+  return fits(rounded) ? rounded : high;
+}
+
+// Smallest whole number of daily visitors that fits the limit
+function suggestDailyVisitors(fits: (dailyVisitors: number) => boolean, dailyVisitors: number): number | undefined {
+  let low = dailyVisitors;
+  let high = dailyVisitors * 2;
+  for (let doublings = 0; !fits(high); doublings++) {
+    if (doublings >= MAX_TRAFFIC_DOUBLINGS) {
+      return undefined;
+    }
+    low = high;
+    high *= 2;
+  }
+
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (fits(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return Math.ceil(high);
+}
+
+// Converts a sample-size estimate into calendar days for the given traffic
+function withDuration<
+  T extends {
+    relativeMDE: number;
+    sigLevel: number;
+    fixedHorizon: FixedHorizonSampleSize;
+    varianceReduction?: VarianceReduction;
+  }
+>(
+  estimate: T,
+  rawTotalSampleSize: number,
+  dailyVisitors: number,
+  options: RuntimeOptions
+): Omit<T, 'fixedHorizon' | 'varianceReduction'> & RuntimeDuration {
+  validateDailyVisitors(dailyVisitors);
+
+  const { cycleDays, maxDurationDays = DEFAULT_MAX_DURATION_DAYS } = options;
+  validateMaxDuration(maxDurationDays);
+  validateCycleDays(cycleDays);
+
+  const start = parseStartDate(options.startDate);
+  const traffic = resolveDailyTraffic(dailyVisitors, options, start);
+  const rampSchedule = validateRampSchedule(options.rampSchedule);
+
+  // Collect the total sample size at the (possibly weekday-dependent and ramped) daily traffic
+  const days = daysToCollect(rawTotalSampleSize, traffic.visitorsByDay, rampSchedule);
+
+  // Round up to nearest integer, then to whole business cycles if requested
+  const estimatedDays = Math.ceil(days);
+  const finalDays = roundUpToCycle(estimatedDays, cycleDays);
+
+  // Sanity check for extremely long experiments
+  if (finalDays > maxDurationDays) {
+    throw new CalculationError(
+      `Calculated experiment duration is ${finalDays} days, over the maximum of ${maxDurationDays} days. This suggests the effect size is too small to detect with the given traffic, or the parameters need adjustment. Consider increasing the MDE, lowering the significance level, or increasing daily visitors.`,
+      'DURATION_TOO_LONG',
+      `With ${dailyVisitors} daily visitors, detecting a ${(estimate.relativeMDE * 100).toFixed(1)}% relative change at ${estimate.sigLevel}% confidence would take ${finalDays} days`
+    );
+  }
+
+  const fixedHorizonDays = daysToCollect(estimate.fixedHorizon.totalSampleSize, traffic.visitorsByDay, rampSchedule);
+
+  // The plan without CUPED is reported as-is, even when it is over the limit
+  let varianceReduction: VarianceReductionDuration | undefined;
+  if (estimate.varianceReduction) {
+    const { unadjusted } = estimate.varianceReduction;
+    const unadjustedDays = daysToCollect(unadjusted.totalSampleSize, traffic.visitorsByDay, rampSchedule);
+    const unadjustedFixedHorizonDays = daysToCollect(
+      unadjusted.fixedHorizonTotalSampleSize,
+      traffic.visitorsByDay,
+      rampSchedule
+    );
+    varianceReduction = {
+      ...estimate.varianceReduction,
+      unadjusted: {
+        ...unadjusted,
+        days: roundUpToCycle(Math.ceil(unadjustedDays), cycleDays),
+        rawDays: unadjustedDays,
+        fixedHorizonDays: roundUpToCycle(Math.ceil(unadjustedFixedHorizonDays), cycleDays),
+      },
+    };
+  }
+
+  return {
+    days: finalDays,
+    rawDays: days,
+    ...estimate,
+    dailyVisitors,
+    maxDurationDays,
+    schedule: {
+      daysBeforeCycleRounding: estimatedDays,
+      cycleDays,
+      weekdayTrafficProfile: traffic.weekdayTrafficProfile,
+      startWeekday: traffic.startWeekday,
+      rampSchedule,
+      startDate: start && formatDate(start),
+      endDate: start && formatDate(addDays(start, finalDays - 1)),
+    },
+    fixedHorizon: {
+      ...estimate.fixedHorizon,
+      rawDays: fixedHorizonDays,
+      days: roundUpToCycle(Math.ceil(fixedHorizonDays), cycleDays),
+    },
+    varianceReduction,
+  };
+}
+
+// Without a profile every day gets dailyVisitors. With a weekday profile,
+// dailyVisitors is the average day and each weekday gets its relative share
+// (e.g. weekends at 0.6 of a weekday), rotated to start on the start date.
+function resolveDailyTraffic(
+  dailyVisitors: number,
+  options: RuntimeOptions,
+  start?: Date
+): { visitorsByDay: number[]; weekdayTrafficProfile?: number[]; startWeekday?: string } {
+  const { weekdayTrafficProfile } = options;
+
+  if (weekdayTrafficProfile === undefined) {
+    return { visitorsByDay: [dailyVisitors] };
+  }
+
+  if (
+    !Array.isArray(weekdayTrafficProfile) ||
+    weekdayTrafficProfile.length !== 7 ||
+    weekdayTrafficProfile.some((weight) => typeof weight !== 'number' || !isFinite(weight) || weight < 0) ||
+    weekdayTrafficProfile.every((weight) => weight === 0)
+  ) {
+    throw new CalculationError(
+      `Weekday Traffic Profile must be a list of 7 non-negative numbers (Monday to Sunday) with at least one positive value. Received: ${JSON.stringify(weekdayTrafficProfile)}.`,
+      'INVALID_WEEKDAY_PROFILE',
+      `Use relative traffic per weekday, e.g. [1, 1, 1, 1, 1, 0.6, 0.6] for weekend dips`
+    );
+  }
+
+  // getUTCDay() is 0 for Sunday; shift so Monday is 0
+  const startIndex = start ? (start.getUTCDay() + 6) % 7 : 0;
+
+  const profileTotal = weekdayTrafficProfile.reduce((sum, weight) => sum + weight, 0);
+  const visitorsByWeekday = weekdayTrafficProfile.map((weight) => (dailyVisitors * 7 * weight) / profileTotal);
+
+  return {
+    visitorsByDay: [...visitorsByWeekday.slice(startIndex), ...visitorsByWeekday.slice(0, startIndex)],
+    weekdayTrafficProfile,
+    startWeekday: WEEKDAYS[startIndex],
+  };
+}
+
+// Fractional days needed to collect totalSampleSize visitors when traffic
+// repeats with the given per-day pattern (a single entry means constant
+// traffic). During a ramp each day only gets its allocation of that traffic.
+// Each ramp step is collected in whole periods at a time, so the work does
+// not grow with how far apart the steps are.
+function daysToCollect(totalSampleSize: number, visitorsByDay: number[], rampSchedule?: RampStep[]): number {
+  const steps = rampSchedule || [{ day: 0, allocation: 100 }];
+  let remaining = totalSampleSize;
+
+  for (let index = 0; index < steps.length; index++) {
+    const { day, allocation } = steps[index];
+    const until = index + 1 < steps.length ? steps[index + 1].day : Infinity;
+    const step = collectDuring(remaining, visitorsByDay, day, until, allocation / 100);
+    if (step.finishedAt !== undefined) {
+      return step.finishedAt;
+    }
+    remaining -= step.collected;
+  }
+
+  // Not reached: the last step runs until the sample is complete
+  return Infinity;
+}
+
+// Collects up to remaining visitors from day `from` until day `until` at a
+// constant allocation, returning the fractional day it finishes or, if it does
+// not, how many visitors were collected
+function collectDuring(
+  remaining: number,
+  visitorsByDay: number[],
+  from: number,
+  until: number,
+  allocation: number
+): { finishedAt?: number; collected: number } {
+  const period = visitorsByDay.length;
+
+  // The pattern repeats, rotated to the weekday the step starts on
+  const offset = from % period;
+  const pattern = [...visitorsByDay.slice(offset), ...visitorsByDay.slice(0, offset)].map(
+    (visitors) => visitors * allocation
+  );
+  const visitorsPerPeriod = pattern.reduce((sum, visitors) => sum + visitors, 0);
+
+  const fullPeriods = Math.min(Math.floor(remaining / visitorsPerPeriod), Math.floor((until - from) / period));
+  let left = remaining - fullPeriods * visitorsPerPeriod;
+  let day = from + fullPeriods * period;
+  if (left <= 0) {
+    return { finishedAt: day, collected: remaining };
+  }
+
+  // Less than one period of traffic, or of the step, is left
+  for (const visitors of pattern) {
+    if (day >= until) {
+      break;
+    }
+    if (visitors > 0 && visitors >= left) {
+      return { finishedAt: day + left / visitors, collected: remaining };
+    }
+    left -= visitors;
+    day += 1;
+  }
+
+  return { collected: remaining - left };
+}
+
+// Smallest whole number of daily visitors whose schedule collects
+// totalSampleSize within targetDays, after any cycle rounding. Without a ramp,
+// weekday profile or cycle this is totalSampleSize / targetDays rounded up.
+function visitorsToFinishWithin(totalSampleSize: number, targetDays: number, options: RuntimeOptions): number {
+  const { cycleDays } = options;
+  validateCycleDays(cycleDays);
+  const start = parseStartDate(options.startDate);
+  const rampSchedule = validateRampSchedule(options.rampSchedule);
+
+  const fits = (dailyVisitors: number): boolean => {
+    const traffic = resolveDailyTraffic(dailyVisitors, options, start);
+    const days = daysToCollect(totalSampleSize, traffic.visitorsByDay, rampSchedule);
+    return roundUpToCycle(Math.ceil(days), cycleDays) <= targetDays;
+  };
+
+  const tooShort = () =>
+    new CalculationError(
+      `No amount of daily traffic finishes the experiment within ${targetDays} days${
+        cycleDays ? ` when the duration is rounded up to ${cycleDays}-day cycles` : ' with this traffic schedule'
+      }.`,
+      'TARGET_DAYS_TOO_SHORT',
+      `Use a target of at least ${roundUpToCycle(1, cycleDays)} days, or a schedule with traffic on the first day`
+    );
+  if (roundUpToCycle(1, cycleDays) > targetDays) {
+    throw tooShort();
+  }
+
+  let low = 0;
+  let high = Math.max(1, Math.ceil(totalSampleSize / targetDays));
+  for (let doublings = 0; !fits(high); doublings++) {
+    if (doublings >= MAX_TRAFFIC_DOUBLINGS) {
+      throw tooShort();
+    }
+    low = high;
+    high *= 2;
+  }
+
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (fits(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
+
+function validateRampSchedule(rampSchedule?: RampStep[]): RampStep[] | undefined {
+  if (rampSchedule === undefined) {
+    return undefined;
+  }
+
+  const isValid =
+    Array.isArray(rampSchedule) &&
+    rampSchedule.length > 0 &&
+    rampSchedule[0]?.day === 0 &&
+    rampSchedule.every(
+      (step, index) =>
+        step &&
+        typeof step.day === 'number' &&
+        Number.isInteger(step.day) &&
+        step.day >= 0 &&
+        (index === 0 || step.day > rampSchedule[index - 1].day) &&
+        typeof step.allocation === 'number' &&
+        step.allocation > 0 &&
+        step.allocation <= 100
+    );
+
+  if (!isValid) {
+    throw new CalculationError(
+      `Ramp Schedule must be a list of { day, allocation } steps starting at day 0, with increasing whole-number days and allocations between 0 and 100 (percent). Received: ${JSON.stringify(rampSchedule)}.`,
+      'INVALID_RAMP_SCHEDULE',
+      `For example [{ "day": 0, "allocation": 10 }, { "day": 3, "allocation": 50 }, { "day": 7, "allocation": 100 }]`
+    );
+  }
+
+  return rampSchedule;
+}
+
+function parseStartDate(startDate?: string): Date | undefined {
+  if (startDate === undefined) {
+    return undefined;
+  }
+
+  const start = typeof startDate === 'string' ? new Date(startDate) : new Date(NaN);
+  if (isNaN(start.getTime())) {
+    throw new CalculationError(
+      `Start Date must be a valid ISO date. Received: ${startDate}.`,
+      'INVALID_START_DATE',
+      `Use a date like 2025-03-03`
+    );
+  }
+  return start;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getTime());
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function roundUpToCycle(days: number, cycleDays?: number): number {
+  if (cycleDays === undefined) {
+    return days;
+  }
+  return Math.ceil(days / cycleDays) * cycleDays;
+}
+
+export function estimateDetectableMDE(
+  BCR: number,
+  sigLevel: number,
+  numVariations: number,
+  dailyVisitors: number,
+  maxDays: number,
+  options: RuntimeOptions = {}
+): DetectableMDEEstimate {
+  if (typeof maxDays !== 'number' || isNaN(maxDays) || maxDays <= 0) {
+    throw new CalculationError(
+      `Maximum Days must be a positive number. Received: ${maxDays}. This should be the number of days available to run the experiment.`,
+      'INVALID_MAX_DAYS',
+      `Use the test window in days, like 14 or 28`
+    );
+  }
+
+  // Largest MDE that keeps both c2 >= 0 and c3 < 1
+  const upper = typeof BCR === 'number' && BCR > 0 ? Math.min(1, ((1 - BCR) / BCR) * 0.9999) : 1;
+
+  // Validates every other input and checks the budget is reachable at all
+  const fitsBudget = (MDE: number): RuntimeEstimate | null => {
+    try {
+      const estimate = estimateRunTime(BCR, MDE, sigLevel, numVariations, dailyVisitors, options);
+      // days, not rawDays, so cycle rounding cannot push the result over the budget
+      return estimate.days <= maxDays ? estimate : null;
+    } catch (error) {
+      if (error instanceof CalculationError && error.code === 'DURATION_TOO_LONG') {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const largest = fitsBudget(upper);
+  if (!largest) {
+    throw new CalculationError(
+      `No detectable effect fits within ${maxDays} days. Even a ${(upper * 100).toFixed(1)}% relative change could not be detected with ${dailyVisitors} daily visitors at ${sigLevel}% confidence.`,
+      'MAX_DAYS_TOO_SHORT',
+      `Consider extending the test window, lowering the significance level, or increasing daily visitors`
+    );
+  }
+
+  // Bisect on the relative MDE: durations shrink as the MDE grows
+  let low = 0;
+  let high = upper;
+  while (high - low > MDE_SEARCH_TOLERANCE) {
+    const mid = (low + high) / 2;
+    if (fitsBudget(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  // Round up so the reported MDE still fits the budget
+  const factor = Math.pow(10, MDE_DECIMALS);
+  const detectableMDE = Math.min(Math.ceil(high * factor) / factor, upper);
+  const estimate = fitsBudget(detectableMDE) || largest;
+
+  return {
+    detectableMDE: estimate.relativeMDE,
+    absoluteMDE: estimate.absoluteMDE,
+    maxDays,
+    estimate,
+  };
+}
+
+export function estimateRequiredTraffic(
+  BCR: number,
+  MDE: number,
+  sigLevel: number,
+  numVariations: number,
+  targetDays: number,
+  totalDailyTraffic?: number,
+  options: RuntimeOptions = {}
+): RequiredTrafficEstimate {
+  const { estimate, rawTotalSampleSize } = computeSampleSize(BCR, MDE, sigLevel, numVariations, options);
+
+  if (typeof targetDays !== 'number' || isNaN(targetDays) || targetDays <= 0) {
+    throw new CalculationError(
+      `Target Days must be a positive number. Received: ${targetDays}. This should be the number of days you want the experiment to run.`,
+      'INVALID_TARGET_DAYS',
+      `Use the desired duration in days, like 14 or 21`
+    );
+  }
+
+  if (
+    totalDailyTraffic !== undefined &&
+    (typeof totalDailyTraffic !== 'number' || isNaN(totalDailyTraffic) || totalDailyTraffic <= 0)
+  ) {
+    throw new CalculationError(
+      `Total Daily Traffic must be a positive number when provided. Received: ${totalDailyTraffic}. This should be all visitors per day to the page or site, before any traffic allocation.`,
+      'INVALID_TOTAL_TRAFFIC',
+      `Use the total number of daily visitors, like 20000`
+    );
+  }
+
+  // Solved through the same schedule as the runtime estimate, so a ramp,
+  // weekday profile or cycle rounding still finishes within targetDays
+  const requiredDailyVisitors = visitorsToFinishWithin(rawTotalSampleSize, targetDays, options);
+  const fixedHorizonDailyVisitors = visitorsToFinishWithin(estimate.fixedHorizon.totalSampleSize, targetDays, options);
+
+  if (totalDailyTraffic === undefined) {
+    return {
+      requiredDailyVisitors,
+      targetDays,
+      fixedHorizon: { requiredDailyVisitors: fixedHorizonDailyVisitors },
+      sampleSize: estimate,
+    };
+  }
+
+  const toPercent = (visitors: number) => Math.round((visitors / totalDailyTraffic) * 10000) / 100;
+
+  return {
+    requiredDailyVisitors,
+    targetDays,
+    totalDailyTraffic,
+    trafficAllocationPercent: toPercent(requiredDailyVisitors),
+    exceedsAvailableTraffic: requiredDailyVisitors > totalDailyTraffic,
+    fixedHorizon: {
+      requiredDailyVisitors: fixedHorizonDailyVisitors,
+      trafficAllocationPercent: toPercent(fixedHorizonDailyVisitors),
+    },
+    sampleSize: estimate,
+  };
+}
+
+export function estimateRemainingRunTime(
+  observed: ObservedExperiment,
+  MDE: number,
+  sigLevel: number,
+  options: RuntimeOptions = {}
+): RemainingRuntimeEstimate {
+  const { variations, elapsedDays } = observed;
+
+  if (typeof elapsedDays !== 'number' || isNaN(elapsedDays) || elapsedDays <= 0) {
+    throw new CalculationError(
+      `Elapsed Days must be a positive number. Received: ${elapsedDays}. The experiment needs to have started before its traffic can be measured.`,
+      'INVALID_ELAPSED_DAYS',
+      `Start the experiment, or use the runtime estimate with BCR and dailyVisitors from analytics`
+    );
+  }
+
+  if (!Array.isArray(variations) || variations.length < 2 || variations.some((variation) => !(variation.visitors > 0))) {
+    throw new CalculationError(
+      `Every variation needs observed visitors before the runtime can be estimated from live results. Received visitors: ${JSON.stringify((variations || []).map((variation) => variation.visitors))}.`,
+      'NO_OBSERVED_TRAFFIC',
+      `Wait until the experiment has received traffic in every variation`
+    );
+  }
+
+  const [control] = variations;
+  const observedBCR = control.conversions / control.visitors;
+  if (!(observedBCR > 0 && observedBCR < 1)) {
+    throw new CalculationError(
+      `The control's observed conversion rate is ${observedBCR}, so it cannot be used as the baseline. This usually means too few conversions have been recorded so far.`,
+      'NO_OBSERVED_CONVERSIONS',
+      `Control visitors: ${control.visitors}, conversions: ${control.conversions}`
+    );
+  }
+
+  const visitorsSoFar = variations.reduce((sum, variation) => sum + variation.visitors, 0);
+  const observedDailyVisitors = visitorsSoFar / elapsedDays;
+
+  const estimate = planRunTime(observedBCR, MDE, sigLevel, variations.length, observedDailyVisitors, {
+    ...options,
+    variationWeights: variations.map((variation) => variation.visitors),
+  });
+
+  return {
+    observedBCR,
+    observedDailyVisitors: Math.round(observedDailyVisitors),
+    visitorsSoFar,
+    elapsedDays: Math.round(elapsedDays * 100) / 100,
+    // rawDays counts from the start at the observed rate, so the days already run come off the top
+    remainingDays: estimate.feasible ? Math.max(0, Math.ceil(estimate.rawDays - elapsedDays)) : null,
+    estimate,
+  };
+}
+
+export function estimateHistoricalBaseline(history: ObservedExperiment[]): HistoricalBaseline {
+  const usable = (history || [])
+    .map((experiment, index) => ({ ...experiment, index }))
+    .filter(
+      ({ variations, elapsedDays }) =>
+        elapsedDays > 0 && variations.length > 0 && variations.every((variation) => variation.visitors > 0)
+    );
+
+  if (usable.length === 0) {
+    throw new CalculationError(
+      `None of the ${(history || []).length} past experiments recorded traffic over a known period, so no historical baseline can be derived.`,
+      'NO_HISTORICAL_EXPERIMENTS',
+      `Pass BCR and dailyVisitors from analytics instead`
+    );
+  }
+
+  const experiments = usable.map(({ variations, elapsedDays, index }) => {
+    const [control] = variations;
+    const visitors = variations.reduce((sum, variation) => sum + variation.visitors, 0);
+    return {
+      index,
+      BCR: control.conversions / control.visitors,
+      dailyVisitors: Math.round(visitors / elapsedDays),
+      visitors,
+      elapsedDays: Math.round(elapsedDays * 100) / 100,
+    };
+  });
+
+  const controlVisitors = usable.reduce((sum, { variations }) => sum + variations[0].visitors, 0);
+  const controlConversions = usable.reduce((sum, { variations }) => sum + variations[0].conversions, 0);
+
+  // The median keeps one unusually busy (or quiet) test from skewing the default
+  const daily = experiments.map((experiment) => experiment.dailyVisitors).sort((a, b) => a - b);
+  const middle = Math.floor(daily.length / 2);
+  const dailyVisitors = daily.length % 2 ? daily[middle] : Math.round((daily[middle - 1] + daily[middle]) / 2);
+
+  return {
+    BCR: controlConversions / controlVisitors,
+    dailyVisitors,
+    experiments,
+  };
+}
+
+export function estimateBayesianRunTime(
+  BCR: number,
+  MDE: number,
+  numVariations: number,
+  dailyVisitors: number,
+  options: BayesianOptions = {}
+): BayesianRuntimeEstimate {
+  validateBCR(BCR);
+  validateMDE(MDE);
+  validateNumVariations(numVariations);
+  validateDailyVisitors(dailyVisitors);
+
+  const {
+    lossThreshold = DEFAULT_LOSS_THRESHOLD,
+    priorAlpha = DEFAULT_PRIOR,
+    priorBeta = DEFAULT_PRIOR,
+    seed = DEFAULT_SIMULATION_SEED,
+    maxDurationDays = DEFAULT_MAX_DURATION_DAYS,
+  } = options;
+  validateMaxDuration(maxDurationDays);
+
+  // Most simulations that fit the cap, so long designs run fewer by default
+  const maxSimulations = Math.floor(MAX_SIMULATED_ARM_DAYS / (maxDurationDays * numVariations));
+  const defaulted = options.simulations === undefined;
+  const simulations = defaulted
+    ? Math.min(DEFAULT_SIMULATIONS, Math.max(maxSimulations, MIN_DEFAULT_SIMULATIONS))
+    : (options.simulations as number);
+
+  if (typeof lossThreshold !== 'number' || !isFinite(lossThreshold) || lossThreshold <= 0) {
+    throw new CalculationError(
+      `Loss Threshold must be a positive number. Received: ${lossThreshold}. It is the expected loss you accept when shipping the leader, relative to the BCR.`,
+      'INVALID_LOSS_THRESHOLD',
+      `For example 0.001 accepts an expected loss of 0.1% of the baseline conversion rate`
+    );
+  }
+
+  if ([priorAlpha, priorBeta].some((value) => typeof value !== 'number' || !isFinite(value) || value <= 0)) {
+    throw new CalculationError(
+      `Prior Alpha and Prior Beta must be positive numbers. Received: alpha=${priorAlpha}, beta=${priorBeta}.`,
+      'INVALID_PRIOR',
+      `Use 1 and 1 for a uniform prior, or prior conversions and non-conversions such as 10 and 90 for a 10% rate`
+    );
+  }
+
+  if (!Number.isInteger(simulations) || simulations < 1 || simulations > MAX_SIMULATIONS || !Number.isInteger(seed)) {
+    throw new CalculationError(
+      `Simulations must be a whole number from 1 to ${MAX_SIMULATIONS} and the seed a whole number. Received: simulations=${simulations}, seed=${seed}.`,
+      'INVALID_SIMULATIONS',
+      `The defaults of ${DEFAULT_SIMULATIONS} simulations and seed ${DEFAULT_SIMULATION_SEED} suit most plans`
+    );
+  }
+
+  const armDays = simulations * maxDurationDays * numVariations;
+  if (armDays > MAX_SIMULATED_ARM_DAYS) {
+    throw new CalculationError(
+      `The Bayesian simulation would cover ${simulations} simulations x ${maxDurationDays} days x ${numVariations} variations, over the limit of ${MAX_SIMULATED_ARM_DAYS} variation-days.${
+        defaulted
+          ? ` Even the minimum of ${MIN_DEFAULT_SIMULATIONS} simulations does not fit, so shorten maxDurationDays or compare fewer variations.`
+          : maxSimulations >= 1
+            ? ` Use at most ${maxSimulations} simulations for this design.`
+            : ''
+      }`,
+      'SIMULATION_TOO_LARGE',
+      { simulations, maxDurationDays, numVariations, limit: MAX_SIMULATED_ARM_DAYS }
+    );
+  }
+
+  const treatmentRate = BCR * (1 + MDE);
+  if (treatmentRate >= 1) {
+    throw new CalculationError(
+      `The Minimum Detectable Effect (${MDE}) is too large relative to the Baseline Conversion Rate (${BCR}). This would result in a conversion rate of 100% or more. Please use a smaller MDE or check your BCR value.`,
+      'MDE_TOO_LARGE',
+      `MDE of ${MDE} on BCR of ${BCR} would create a conversion rate of ${treatmentRate.toFixed(4)}`
+    );
+  }
+
+  const rates = [BCR, treatmentRate, ...new Array(numVariations - 2).fill(BCR)];
+  const share = dailyVisitors / numVariations;
+  const absoluteLossThreshold = BCR * lossThreshold;
+  const random = createRandom(seed);
+
+  const stopDays: number[] = [];
+  let stopped = 0;
+  let correct = 0;
+
+  for (let run = 0; run < simulations; run++) {
+    const visitors = new Array(numVariations).fill(0);
+    const conversions = new Array(numVariations).fill(0);
+    let stopDay = Infinity;
+
+    for (let day = 1; day <= maxDurationDays; day++) {
+      // Rounded cumulative arrivals keep fractional daily traffic from being lost
+      const arrivals = Math.round(day * share) - Math.round((day - 1) * share);
+      for (let arm = 0; arm < numVariations; arm++) {
+        visitors[arm] += arrivals;
+        conversions[arm] += sampleBinomial(arrivals, rates[arm], random);
+      }
+
+      const { leader, loss } = expectedLoss(visitors, conversions, priorAlpha, priorBeta);
+      if (loss < absoluteLossThreshold) {
+        stopDay = day;
+        stopped++;
+        if (leader === 1) {
+          correct++;
+        }
+        break;
+      }
+    }
+    stopDays.push(stopDay);
+  }
+
+  stopDays.sort((a, b) => a - b);
+  const percentile = (q: number): number | null => {
+    const day = stopDays[Math.ceil(q * simulations) - 1];
+    return isFinite(day) ? day : null;
+  };
+
+  return {
+    method: 'expected_loss',
+    days: percentile(0.5),
+    percentiles: { p50: percentile(0.5), p80: percentile(0.8), p90: percentile(0.9) },
+    stoppedWithinMaxRate: stopped / simulations,
+    correctDecisionRate: stopped > 0 ? correct / stopped : null,
+    lossThreshold,
+    absoluteLossThreshold,
+    prior: { alpha: priorAlpha, beta: priorBeta },
+    simulations,
+    seed,
+    maxDurationDays,
+  };
+}
+
+// Expected loss of shipping the arm with the highest posterior mean. Each
+// Beta posterior is approximated by a normal with the same mean and variance,
+// giving E[max(pj - pLeader, 0)] in closed form per arm; summing over the other
+// arms bounds the loss from above when there are more than two.
+function expectedLoss(
+  visitors: number[],
+  conversions: number[],
+  priorAlpha: number,
+  priorBeta: number
+): { leader: number; loss: number } {
+  const posteriors = visitors.map((n, arm) => {
+    const a = priorAlpha + conversions[arm];
+    const b = priorBeta + n - conversions[arm];
+    return { mean: a / (a + b), variance: (a * b) / ((a + b) * (a + b) * (a + b + 1)) };
+  });
+
+  let leader = 0;
+  posteriors.forEach((posterior, arm) => {
+    if (posterior.mean > posteriors[leader].mean) {
+      leader = arm;
+    }
+  });
+
+  let loss = 0;
+  posteriors.forEach((posterior, arm) => {
+    if (arm === leader) {
+      return;
+    }
+    const difference = posterior.mean - posteriors[leader].mean;
+    const sd = Math.sqrt(posterior.variance + posteriors[leader].variance);
+    loss += difference * normalCdf(difference / sd) + sd * normalPdf(difference / sd);
+  });
+
+  return { leader, loss };
+}
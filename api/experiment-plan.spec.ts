@@ -0,0 +1,71 @@
+import { buildExperimentPlan } from './experiment-plan';
+import { estimateRunTime, CalculationError } from './calculate-runtime';
+
+describe('Experiment Plan', () => {
+  describe('buildExperimentPlan', () => {
+    const input = {
+      title: 'Delivery Dates on PDP',
+      hypothesis: 'Showing delivery dates on product pages will increase checkout starts.',
+      primaryMetric: 'Checkout start',
+      secondaryMetrics: ['Revenue per visitor', 'Add to cart'],
+      BCR: 0.05,
+      MDE: 0.1,
+      sigLevel: 95,
+      numVariations: 2,
+      dailyVisitors: 4000,
+    };
+    const preparedAt = new Date('2025-03-01T12:00:00Z');
+
+    it('should render every section of the plan in order', () => {
+      const { markdown } = buildExperimentPlan(input, preparedAt);
+
+      const sections = ['# Delivery Dates on PDP', '## Hypothesis', '## Metrics', '## Design', '## Runtime', '## Sensitivity', '## Risks'];
+      const positions = sections.map((section) => markdown.indexOf(section));
+      expect(positions.every((position) => position >= 0)).toBe(true);
+      expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+      expect(markdown).toContain('**Prepared:** 2025-03-01');
+      expect(markdown).toContain('- **Secondary:** Revenue per visitor, Add to cart');
+    });
+
+    it('should report the same runtime as the calculator', () => {
+      const plan = buildExperimentPlan(input, preparedAt);
+      const estimate = estimateRunTime(0.05, 0.1, 95, 2, 4000);
+
+      expect(plan.estimate.feasible).toBe(true);
+      expect(plan.markdown).toContain(`| Sequential (Stats Engine) | ${estimate.sampleSizePerVariation.toLocaleString('en-US')} |`);
+      expect(plan.markdown).toContain(`| ${estimate.days} |\n| Fixed horizon (80% power)`);
+    });
+
+    it('should include a sensitivity grid around the planned MDE and traffic', () => {
+      const { markdown } = buildExperimentPlan(input, preparedAt);
+
+      expect(markdown).toContain('| MDE | 2,000/day | 4,000/day | 8,000/day |');
+      expect(markdown).toContain('| 5% |');
+      expect(markdown).toContain('| 20% |');
+    });
+
+    it('should add design risks after the caller\'s risks', () => {
+      const plan = buildExperimentPlan(
+        { ...input, numVariations: 3, risks: ['Holiday traffic in week 3'], options: { variationWeights: [50, 25, 25] } },
+        preparedAt
+      );
+
+      expect(plan.risks[0]).toBe('Holiday traffic in week 3');
+      expect(plan.risks.some((risk) => risk.includes('without a multiple-comparison correction'))).toBe(true);
+      expect(plan.risks.some((risk) => risk.includes('traffic split is unequal'))).toBe(true);
+    });
+
+    it('should explain how to make an infeasible plan fit', () => {
+      const plan = buildExperimentPlan({ ...input, MDE: 0.01, dailyVisitors: 500, options: { maxDurationDays: 56 } }, preparedAt);
+
+      expect(plan.estimate.feasible).toBe(false);
+      expect(plan.markdown).toContain('**Not feasible:**');
+      expect(plan.markdown).toContain('- Raise the MDE to');
+      expect(plan.markdown).toContain('> 56');
+    });
+
+    it('should throw calculation errors for invalid inputs', () => {
+      expect(() => buildExperimentPlan({ ...input, BCR: 5 }, preparedAt)).toThrow(CalculationError);
+    });
+  });
+});
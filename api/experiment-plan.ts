@@ -0,0 +1,203 @@
+/*
+Experiment Plan Document
+------------------------------------------------------
+Turns a hypothesis, its metrics and the runtime inputs into a templated plan
+in markdown, ready for generatePdfFromMarkdown:
+
+Design = BCR, MDE, significance, power, variations and traffic
+Runtime = the Stats Engine style (sequential) and fixed-horizon estimates from
+          planRunTime, or the MDE/traffic suggestions when over maxDurationDays
+Sensitivity = an estimateRunTimeGrid around the planned MDE (0.5x to 2x) and
+              daily visitors (0.5x to 2x) at the planned significance level
+Risks = the caller's risks followed by ones derived from the design, such as
+        tests shorter than a week or uncorrected A/B/n comparisons
+
+The markdown is built from the same estimate that is returned with it, so the
+document never disagrees with the numbers the agent reports.
+*/
+
+import { planRunTime } from './calculate-runtime';
+import type { RuntimeOptions, RuntimeEstimate, RuntimePlan } from './calculate-runtime';
+import { estimateRunTimeGrid } from './runtime-grid';
+
+export type ExperimentPlanInput = {
+  title?: string;
+  hypothesis: string;
+  primaryMetric: string;
+  secondaryMetrics?: string[];
+  BCR: number;
+  MDE: number;
+  sigLevel: number;
+  numVariations: number;
+  dailyVisitors: number;
+  risks?: string[];
+  options?: RuntimeOptions;
+};
+
+export type ExperimentPlan = {
+  title: string;
+  markdown: string;
+  estimate: RuntimePlan<RuntimeEstimate>;
+  risks: string[];
+};
+
+const DEFAULT_TITLE = 'Experiment Plan';
+
+// Multiples of the planned MDE and daily visitors shown in the sensitivity grid
+const MDE_MULTIPLIERS = [0.5, 0.75, 1, 1.5, 2];
+const TRAFFIC_MULTIPLIERS = [0.5, 1, 2];
+
+// Shorter tests miss at least one weekday and its traffic pattern
+const MIN_RECOMMENDED_DAYS = 7;
+
+export function buildExperimentPlan(input: ExperimentPlanInput, preparedAt: Date = new Date()): ExperimentPlan {
+  const { BCR, MDE, sigLevel, numVariations, dailyVisitors, options = {} } = input;
+  const title = input.title?.trim() || DEFAULT_TITLE;
+
+  // Throws for invalid inputs before anything is rendered
+  const estimate = planRunTime(BCR, MDE, sigLevel, numVariations, dailyVisitors, options);
+
+  const grid = estimateRunTimeGrid(
+    BCR,
+    unique(MDE_MULTIPLIERS.map((multiplier) => round(MDE * multiplier, 4))),
+    sigLevel,
+    numVariations,
+    unique(TRAFFIC_MULTIPLIERS.map((multiplier) => Math.round(dailyVisitors * multiplier))),
+    options
+  );
+
+  const risks = [...(input.risks || []).filter((risk) => risk.trim() !== ''), ...designRisks(estimate, input)];
+
+  const markdown = [
+    `# ${title}`,
+    `**Prepared:** ${preparedAt.toISOString().slice(0, 10)}`,
+    '## Hypothesis',
+    input.hypothesis,
+    '## Metrics',
+    formatMetrics(input.primaryMetric, input.secondaryMetrics),
+    '## Design',
+    formatDesign(input),
+    '## Runtime',
+    formatRuntime(estimate),
+    '## Sensitivity',
+    `Days to significance as the MDE (rows) and daily visitors (columns) change. Cells marked "> ${estimate.maxDurationDays}" exceed the maximum duration.`,
+    grid.markdown,
+    '## Risks',
+    risks.length > 0 ? risks.map((risk) => `- ${risk}`).join('\n') : 'No specific risks identified.',
+  ].join('\n\n');
+
+  return { title, markdown, estimate, risks };
+}
+
+function formatMetrics(primaryMetric: string, secondaryMetrics: string[] = []): string {
+  const lines = [`- **Primary:** ${primaryMetric}`];
+  if (secondaryMetrics.length > 0) {
+    lines.push(`- **Secondary:** ${secondaryMetrics.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+function formatDesign(input: ExperimentPlanInput): string {
+  const { BCR, MDE, sigLevel, numVariations, dailyVisitors, options = {} } = input;
+  const { variationWeights, power = 80, correction = 'none', testType = 'superiority' } = options;
+
+  const split = variationWeights
+    ? variationWeights.map((weight) => formatPercent(weight / variationWeights.reduce((sum, w) => sum + w, 0))).join(' / ')
+    : 'equal split';
+
+  const rows: [string, string][] = [
+    ['Baseline conversion rate', formatPercent(BCR)],
+    [
+      testType === 'superiority' ? 'Minimum detectable effect' : 'Margin',
+      `${formatPercent(MDE)} relative (${Number((BCR * MDE * 100).toPrecision(6))} percentage points)`,
+    ],
+    ['Significance level', `${sigLevel}%`],
+    ['Power (fixed horizon)', `${power}%`],
+    ['Variations', `${numVariations} including control (${split})`],
+    ['Daily visitors', formatNumber(dailyVisitors)],
+  ];
+  if (testType !== 'superiority') {
+    rows.push(['Test type', testType.replace('_', '-')]);
+  }
+  if (correction !== 'none') {
+    rows.push(['Multiple-comparison correction', correction]);
+  }
+
+  return ['| Parameter | Value |', '|---|---|', ...rows.map(([name, value]) => `| ${name} | ${value} |`)].join('\n');
+}
+
+function formatRuntime(estimate: RuntimePlan<RuntimeEstimate>): string {
+  if (!estimate.feasible) {
+    const { suggestions } = estimate;
+    const fixes: string[] = [];
+    if (suggestions.MDE !== undefined) {
+      fixes.push(`- Raise the MDE to ${formatPercent(suggestions.MDE)}`);
+    }
+    if (suggestions.dailyVisitors !== undefined) {
+      fixes.push(`- Increase traffic to ${formatNumber(suggestions.dailyVisitors)} daily visitors`);
+    }
+    return [
+      `**Not feasible:** the test would take about ${formatNumber(estimate.estimatedDays)} days, over the ${estimate.maxDurationDays}-day maximum.`,
+      ...(fixes.length > 0 ? [`To finish within the maximum:\n\n${fixes.join('\n')}`] : []),
+    ].join('\n\n');
+  }
+
+  const { fixedHorizon } = estimate;
+  const rows = [
+    `| Sequential (Stats Engine) | ${formatNumber(estimate.sampleSizePerVariation)} | ${formatNumber(estimate.totalSampleSize)} | ${estimate.days} |`,
+    `| Fixed horizon (${fixedHorizon.power}% power) | ${formatNumber(fixedHorizon.sampleSizePerVariation)} | ${formatNumber(fixedHorizon.totalSampleSize)} | ${fixedHorizon.days} |`,
+  ];
+  const lines = [
+    ['| Method | Visitors per variation | Total visitors | Days |', '|---|---|---|---|', ...rows].join('\n'),
+  ];
+  if (estimate.schedule.endDate) {
+    lines.push(`Starting ${estimate.schedule.startDate}, the test ends on ${estimate.schedule.endDate}.`);
+  }
+  return lines.join('\n\n');
+}
+
+function designRisks(estimate: RuntimePlan<RuntimeEstimate>, input: ExperimentPlanInput): string[] {
+  const { numVariations, options = {} } = input;
+  const risks: string[] = [];
+
+  if (!estimate.feasible) {
+    risks.push(
+      `The planned MDE cannot be detected within ${estimate.maxDurationDays} days at the available traffic; revisit the MDE or traffic before launch.`
+    );
+  } else if (estimate.days < MIN_RECOMMENDED_DAYS) {
+    risks.push(
+      `The estimate is under ${MIN_RECOMMENDED_DAYS} days. Run at least one full week so weekday and weekend behaviour are both represented.`
+    );
+  }
+
+  if (numVariations > 2 && (options.correction || 'none') === 'none') {
+    risks.push(
+      `${numVariations - 1} variations are compared against control without a multiple-comparison correction, which raises the chance of a false winner.`
+    );
+  }
+
+  if (options.variationWeights && new Set(options.variationWeights).size > 1) {
+    risks.push('The traffic split is unequal, so the smallest arm determines the duration.');
+  }
+
+  risks.push('Check for a sample ratio mismatch early; a broken traffic split invalidates the results.');
+
+  return risks;
+}
+
+function unique(values: number[]): number[] {
+  return values.filter((value, index) => value > 0 && values.indexOf(value) === index);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function formatPercent(value: number): string {
+  return `${Number((value * 100).toPrecision(6))}%`;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US');
+}
@@ -1,23 +1,37 @@
 import { mdToPdf } from 'md-to-pdf';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { randomUUID } from 'crypto';
 import chromium from '@sparticuz/chromium';
+import { resolvePdfTheme, buildThemeCss, buildThemeHeader } from './pdf-theme';
+import type { PdfTheme } from './pdf-theme';
+import { validatePdfLayout, buildPageTemplates, addTableOfContents, resolveDocumentTitle } from './pdf-layout';
+import type { PdfLayoutOptions } from './pdf-layout';
+import { renderChartBlocks } from './pdf-chart';
+import { storePdf, getPdfStorage, getPdfUrlTtlSeconds } from './pdf-storage';
 
-type GeneratePdfParams = {
+export type GeneratePdfParams = {
   markdown: string;
   filename?: string;
-};
+  // Name of a registered theme, defaults to the Optimizely theme
+  theme?: string;
+  themeOverrides?: PdfTheme;
+} & PdfLayoutOptions;
 
 export async function generatePdfFromMarkdown(
   params: GeneratePdfParams
 ): Promise<{ pdfUrl: string; expiresAt: string }> {
-  const { markdown, filename } = params;
-  
-  const pdfFilename = filename ? `${filename}.pdf` : `document-${randomUUID()}.pdf`;
-  const tempDir = '/tmp';
-  const outputPath = path.join(tempDir, pdfFilename);
-  
+  const { markdown, filename, theme, themeOverrides, ...layout } = params;
+
+  // Resolve before starting Chromium so a bad theme or layout fails fast with its own message
+  const resolvedTheme = resolvePdfTheme(theme, themeOverrides);
+  validatePdfLayout(layout);
+
+  // ```chart blocks become inline SVG; invalid chart data fails here as well
+  const markdownWithCharts = renderChartBlocks(markdown);
+
+  // Missing storage configuration fails here too, before the PDF is rendered
+  getPdfStorage();
+
   try {
     console.log('Starting PDF generation...');
     
@@ -29,87 +43,22 @@ export async function generatePdfFromMarkdown(
     const logoPath = path.join(__dirname, 'assets', 'optimizely_logo.svg');
     const logoSvg = await fs.readFile(logoPath, 'utf8');
 
-    // Create custom CSS for professional document styling
-    const customCSS = `
-      body {
-        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Arial, sans-serif;
-        line-height: 1.6;
-        color: #333;
-        margin: 0;
-        padding: 20px;
-      }
-      .optimizely-header {
-        display: flex;
-        align-items: center;
-        padding: 20px 0 30px 0;
-        margin-bottom: 30px;
-        border-bottom: 2px solid #eee;
-      }
-      .optimizely-header svg {
-        height: 40px;
-        width: auto;
-      }
-      h1, h2, h3, h4, h5, h6 {
-        color: #1a1a1a;
-        margin-top: 24px;
-        margin-bottom: 12px;
-      }
-      h1 { font-size: 28px; }
-      h2 { font-size: 24px; }
-      h3 { font-size: 20px; }
-      h4 { font-size: 18px; }
-      p { margin-bottom: 12px; }
-      code {
-        background: #f5f5f5;
-        padding: 2px 6px;
-        border-radius: 3px;
-        font-family: 'Monaco', 'Courier New', monospace;
-        font-size: 0.9em;
-      }
-      pre {
-        background: #f5f5f5;
-        padding: 16px;
-        border-radius: 6px;
-        overflow-x: auto;
-        margin: 16px 0;
-      }
-      pre code {
-        background: none;
-        padding: 0;
-      }
-      ul, ol { padding-left: 24px; margin-bottom: 12px; }
-      li { margin-bottom: 6px; }
-      strong { font-weight: 600; }
-      em { font-style: italic; }
-      blockquote {
-        border-left: 4px solid #ddd;
-        margin: 16px 0;
-        padding-left: 16px;
-        color: #666;
-      }
-      table {
-        border-collapse: collapse;
-        width: 100%;
-        margin: 16px 0;
-      }
-      th, td {
-        border: 1px solid #ddd;
-        padding: 8px;
-        text-align: left;
-      }
-      th {
-        background-color: #f5f5f5;
-        font-weight: 600;
-      }
-    `;
+    // Theme CSS and header (logo and header text) for professional document styling
+    const customCSS = buildThemeCss(resolvedTheme);
+
+    // Running header/footer with the title, date and page numbers
+    const pageTemplates = buildPageTemplates(resolvedTheme, layout, {
+      title: resolveDocumentTitle(markdown, layout.title, filename),
+      date: new Date()
+    });
 
-    // Prepend the Optimizely header to the markdown content
-    const markdownWithHeader = `
-<div class="optimizely-header">
-  ${logoSvg}
-</div>
+    const content = layout.tableOfContents
+      ? addTableOfContents(markdownWithCharts, layout.tocDepth)
+      : markdownWithCharts;
 
-${markdown}`;
+    // Prepend the theme header to the markdown content
+    const markdownWithHeader = `${buildThemeHeader(resolvedTheme, logoSvg)}
+${content}`;
 
     const pdf = await mdToPdf(
       { content: markdownWithHeader },
@@ -126,7 +75,11 @@ ${markdown}`;
             right: '15mm',
             bottom: '20mm',
             left: '15mm'
-          }
+          },
+          ...(pageTemplates && {
+            displayHeaderFooter: true,
+            ...pageTemplates
+          })
         },
         css: customCSS,
         marked_options: {
@@ -141,24 +94,14 @@ ${markdown}`;
       throw new Error('Failed to generate PDF content');
     }
 
-    console.log('PDF generated successfully, writing to file...');
-    await fs.writeFile(outputPath, pdf.content);
-    console.log('PDF written to:', outputPath);
-
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 1);
-
-    // Use environment variable for base URL, fallback to Vercel URL pattern
-    const baseUrl = process.env.BASE_URL || process.env.VERCEL_URL 
-      ? `https://${process.env.VERCEL_URL}` 
-      : 'http://localhost:3000';
-    
-    const fullPdfUrl = `${baseUrl}/pdfs/${pdfFilename}`;
-    console.log('Generated PDF URL:', fullPdfUrl);
+    console.log('PDF generated successfully, saving to storage...');
+    const { key, pdfUrl, expiresAt } = await storePdf(pdf.content, filename);
+    console.log('PDF saved as:', key);
 
+    // The URL carries its signature, so only the key is logged
     return {
-      pdfUrl: fullPdfUrl,
-      expiresAt: expiresAt.toISOString()
+      pdfUrl,
+      expiresAt
     };
   } catch (error) {
     console.error('PDF generation error:', error);
@@ -168,25 +111,9 @@ ${markdown}`;
 
 export async function cleanupExpiredPdfs(): Promise<void> {
   try {
-    const tempDir = '/tmp';
-    const files = await fs.readdir(tempDir);
-    const pdfFiles = files.filter(file => file.endsWith('.pdf') && file.includes('document-'));
-    
-    const oneHourAgo = new Date();
-    oneHourAgo.setHours(oneHourAgo.getHours() - 1);
-    
-    for (const file of pdfFiles) {
-      const filePath = path.join(tempDir, file);
-      try {
-        const stats = await fs.stat(filePath);
-        if (stats.mtime < oneHourAgo) {
-          await fs.unlink(filePath);
-        }
-      } catch (error) {
-        // File might already be deleted, continue
-      }
-    }
+    const cutoff = new Date(Date.now() - getPdfUrlTtlSeconds() * 1000);
+    await getPdfStorage().cleanup(cutoff);
   } catch (error) {
     // Cleanup is best effort, don't throw
   }
-}
\ No newline at end of file
+}
@@ -5,8 +5,37 @@ import {
 } from "@optimizely-opal/opal-tools-sdk";
 import express from "express";
 import dotenv from "dotenv";
-import { estimateRunTimeDays, CalculationError } from "./calculate-runtime";
+import {
+  calculateRuntime,
+  calculateDetectableMde,
+  calculateRequiredTraffic,
+  calculateRuntimeGrid,
+  simulateRuntime,
+  calculateRemainingRuntime,
+  calculateRuntimeFromHistory,
+  generateExperimentPlan,
+} from "./runtime-tools";
+import type {
+  CalculateRuntimeParams,
+  CalculateDetectableMdeParams,
+  CalculateRequiredTrafficParams,
+  CalculateRuntimeGridParams,
+  SimulateRuntimeParams,
+  CalculateRemainingRuntimeParams,
+  CalculateHistoricalRuntimeParams,
+  GenerateExperimentPlanParams,
+} from "./runtime-tools";
+import {
+  analyzeExperimentCounts,
+  checkSampleRatioMismatch,
+} from "./analysis-tools";
+import type {
+  AnalyzeResultsParams,
+  CheckSampleRatioParams,
+} from "./analysis-tools";
 import { generatePdfFromMarkdown, cleanupExpiredPdfs } from "./generate-pdf";
+import type { GeneratePdfParams } from "./generate-pdf";
+import { getPdfStorage, LocalPdfStorage } from "./pdf-storage";
 import { readJiraIssue, updateJiraIssue, createJiraIssue } from "./jira-tools";
 import type {
   ReadJiraIssueParams,
@@ -58,18 +87,31 @@ dotenv.config();
 const app = express();
 app.use(express.json()); // Add JSON middleware
 
-// Serve PDFs from /tmp directory
-app.use(
-  "/pdfs",
-  express.static("/tmp", {
-    setHeaders: (res, path) => {
-      if (path.endsWith(".pdf")) {
-        res.setHeader("Content-Type", "application/pdf");
-        res.setHeader("Content-Disposition", "inline");
-      }
-    },
-  })
-);
+// Serve PDFs saved to local storage; links must carry a valid, unexpired signature.
+// With S3 storage the signed URLs point straight at the bucket instead.
+app.get("/pdfs/:key", async (req, res) => {
+  const storage = getPdfStorage();
+  const { key } = req.params;
+  const { expires, signature } = req.query;
+
+  if (
+    !(storage instanceof LocalPdfStorage) ||
+    typeof expires !== "string" ||
+    typeof signature !== "string" ||
+    !storage.verify(key, expires, signature)
+  ) {
+    return res.status(403).send("This PDF link is invalid or has expired.");
+  }
+
+  const content = await storage.read(key);
+  if (!content) {
+    return res.status(404).send("PDF not found");
+  }
+
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", "inline");
+  res.send(content);
+});
 
 const toolsService = new ToolsService(app);
 const bearerToken = process.env.BEARER_TOKEN;
@@ -86,75 +128,6 @@ app.get("/", (req, res) => {
   res.send("Opal tool server is running. Visit /discovery for tool discovery.");
 });
 
-type CalculateRuntimeParams = {
-  BCR: number;
-  MDE: number;
-  sigLevel: number;
-  numVariations: number;
-  dailyVisitors: number;
-};
-
-type GeneratePdfParams = {
-  markdown: string;
-  filename?: string;
-};
-
-async function calculateRuntime(
-  params: CalculateRuntimeParams
-): Promise<{ days: number | null }> {
-  const { BCR, MDE, sigLevel, numVariations, dailyVisitors } = params;
-
-  try {
-    const days = estimateRunTimeDays(
-      BCR,
-      MDE,
-      sigLevel,
-      numVariations,
-      dailyVisitors
-    );
-    return { days };
-  } catch (error) {
-    if (error instanceof CalculationError) {
-      // Provide detailed error context for runtime calculations
-      if (error.code === "INVALID_BCR") {
-        throw new Error(
-          `Invalid Baseline Conversion Rate: ${error.message} The BCR represents your current conversion rate as a decimal (e.g., 0.05 for 5%). Please check your analytics data and provide the correct conversion rate.`
-        );
-      } else if (error.code === "INVALID_MDE") {
-        throw new Error(
-          `Invalid Minimum Detectable Effect: ${error.message} The MDE represents the relative improvement you want to detect (e.g., 0.10 for a 10% improvement). Consider what meaningful business impact you want to measure.`
-        );
-      } else if (error.code === "INVALID_SIGNIFICANCE_LEVEL") {
-        throw new Error(
-          `Invalid Statistical Significance Level: ${error.message} This determines how confident you want to be in your results. Common values are 90, 95, or 99. Higher values require longer tests.`
-        );
-      } else if (error.code === "INVALID_NUM_VARIATIONS") {
-        throw new Error(
-          `Invalid Number of Variations: ${error.message} For a simple A/B test, use 2 (control + one variation). For A/B/C testing, use 3, and so on.`
-        );
-      } else if (error.code === "INVALID_DAILY_VISITORS") {
-        throw new Error(
-          `Invalid Daily Visitors: ${error.message} This should be the number of unique visitors per day who will see your experiment. Check your website analytics for accurate traffic numbers.`
-        );
-      } else if (error.code === "MDE_TOO_LARGE") {
-        throw new Error(
-          `Minimum Detectable Effect is too large: ${error.message} Your MDE would result in a negative conversion rate. Try reducing the MDE to a more realistic value, or verify your BCR is correct.`
-        );
-      } else if (error.code === "DURATION_TOO_LONG") {
-        throw new Error(
-          `Experiment duration too long: ${error.message} To reduce the duration, you can: 1) Increase the MDE (detect larger effects), 2) Lower the significance level (accept more uncertainty), or 3) Get more daily traffic to the test.`
-        );
-      }
-      throw new Error(`Runtime calculation error: ${error.message}`);
-    }
-    throw new Error(
-      `Unexpected error calculating experiment runtime: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
-    );
-  }
-}
-
 async function generatePdf(
   params: GeneratePdfParams
 ): Promise<{ pdfUrl: string; expiresAt: string }> {
@@ -167,32 +140,52 @@ tool({
 
 📊 CALCULATES: Days needed to reach statistical significance based on your traffic and effect size
 
+📋 RETURNS:
+• days (rounded up) and rawDays (fractional)
+• sampleSizePerVariation and totalSampleSize (visitors)
+• relativeMDE vs absoluteMDE, alpha, and the c1/c2/c3 rates used in the estimate
+• fixedHorizon: classic two-proportion z-test sample size and days at the requested power, for comparison with the Stats Engine style estimate
+
 ⚡ KEY INPUTS:
 • BCR: Current conversion rate (0.05 = 5%)
 • MDE: Minimum detectable effect (0.10 = 10% improvement)
+• Continuous metrics: Set metricType "continuous" and pass baselineMean + standardDeviation (or variance) instead of BCR
 • Significance: Confidence level (95 = 95% confidence)
+• Power: Optional chance of detecting the MDE (80 = 80% power, the default)
 • Variations: Total including control (2 = A/B test)
 • Daily visitors: Actual test participants per day
+• Correction: Optional "bonferroni", "sidak" or "fdr" adjustment for A/B/n tests, with numMetrics for multiple metrics. that lengthens both estimates (correction.sampleSizeFactor)
+• Variation weights: Optional traffic split such as [80, 20]; the smallest arm determines the duration
+• Cycle days: Optional rounding up to full business cycles (7 or 14) so tests end on a full week
+• Weekday traffic profile: Optional relative traffic Monday-Sunday (with startDate) to reflect weekend dips
+• Ramp schedule: Optional traffic ramp such as 10% → 50% → 100%; with startDate the calendar endDate is returned
+• Max duration: Optional longest acceptable test in days (server default applies otherwise)
+• Test type: Optional "non_inferiority" or "equivalence" (TOST) for migrations and performance changes; MDE is then the margin
+• CUPED: Optional varianceReduction (0.3 = 30%) or preExperimentCorrelation; days are then CUPED-adjusted and varianceReduction.unadjusted shows the plan without it
+• Bayesian: Optional bayesian: true adds the days until expected loss drops below lossThreshold (Beta-Binomial, seeded simulation; long many-variation designs run fewer simulations, reported as bayesian.simulations)
 
 💡 BEST PRACTICES:
 • Use realistic baseline conversion rates from analytics
 • Start with 10-20% MDE for meaningful business impact
 • Higher significance = longer tests but more reliable results
-• Account for weekday/weekend traffic variations
+• Account for weekday/weekend traffic variations with cycleDays: 7 and a weekdayTrafficProfile
 
-⚠️ VALIDATION: Provides detailed error messages for invalid inputs with guidance on fixing parameter issues`,
+⚠️ VALIDATION: Provides detailed error messages for invalid inputs with guidance on fixing parameter issues. Estimates over the maximum duration return feasible: false with the suggested MDE or daily visitors that would fit
+
+🔄 UNITS: Percent strings and common unit slips are accepted ("5%" or 5 for BCR becomes 0.05, 0.95 or "95%" for sigLevel becomes 95, "5,000" visitors becomes 5000); inputInterpretations in the response lists every value that was reinterpreted. A lift can exceed 100%, so MDE is only read as a percentage when written as one ("10%" becomes 0.1), while 1.5 stays a 150% change`,
   parameters: [
     {
       name: "BCR",
       type: ParameterType.Number,
       description:
-        "The conversion rate of the control group (e.g., 0.1 for 10%)",
-      required: true,
+        "The conversion rate of the control group (e.g., 0.1 for 10%). Required for binary (conversion) metrics",
+      required: false,
     },
     {
       name: "MDE",
       type: ParameterType.Number,
-      description: "The relative lift you want to detect (e.g., 0.05 for 5%)",
+      description:
+        "The relative lift you want to detect (e.g., 0.05 for 5%), or the relative margin for non-inferiority and equivalence tests",
       required: true,
     },
     {
@@ -214,40 +207,1022 @@ tool({
         "The number of visitors per day participating in the experiment",
       required: true,
     },
+    {
+      name: "power",
+      type: ParameterType.Number,
+      description:
+        "Optional statistical power for the fixed-horizon estimate (e.g., 80 for 80%, the default)",
+      required: false,
+    },
+    {
+      name: "correction",
+      type: ParameterType.String,
+      description:
+        'Optional multiple-comparison correction: "none" (default), "bonferroni", "sidak" or "fdr". Recommended for tests with 3+ variations or several decision metrics',
+      required: false,
+    },
+    {
+      name: "numMetrics",
+      type: ParameterType.Number,
+      description:
+        "Optional number of metrics each variation is evaluated on, used by the correction (default 1)",
+      required: false,
+    },
+    {
+      name: "variationWeights",
+      type: ParameterType.Dictionary,
+      description:
+        "Optional array of traffic weights, one per variation including control, in the same order (e.g. [80, 20]). Defaults to an equal split",
+      required: false,
+    },
+    {
+      name: "cycleDays",
+      type: ParameterType.Number,
+      description:
+        "Optional business cycle length in days to round the duration up to (e.g. 7 for full weeks, 14 for two-week cycles)",
+      required: false,
+    },
+    {
+      name: "weekdayTrafficProfile",
+      type: ParameterType.Dictionary,
+      description:
+        "Optional array of 7 relative traffic values from Monday to Sunday (e.g. [1, 1, 1, 1, 1, 0.6, 0.6]). dailyVisitors is treated as the average day",
+      required: false,
+    },
+    {
+      name: "startDate",
+      type: ParameterType.String,
+      description:
+        "Optional ISO start date (e.g. 2025-03-03) used to align the weekday traffic profile and to return the calendar end date. Defaults to a Monday start",
+      required: false,
+    },
+    {
+      name: "rampSchedule",
+      type: ParameterType.Dictionary,
+      description:
+        'Optional traffic ramp as an array of steps, starting at day 0, where allocation is the percentage of dailyVisitors in the test from that day (e.g. [{"day":0,"allocation":10},{"day":3,"allocation":50},{"day":7,"allocation":100}])',
+      required: false,
+    },
+    {
+      name: "maxDurationDays",
+      type: ParameterType.Number,
+      description:
+        "Optional longest acceptable experiment in days (e.g. 56). Defaults to the server's MAX_EXPERIMENT_DAYS setting, or 365",
+      required: false,
+    },
+    {
+      name: "testType",
+      type: ParameterType.String,
+      description:
+        'Optional test type: "superiority" (default) to detect an improvement, "non_inferiority" to show the variation is not worse than control by more than MDE, or "equivalence" (two one-sided tests) to show it is within MDE either way',
+      required: false,
+    },
+    {
+      name: "varianceReduction",
+      type: ParameterType.Number,
+      description:
+        "Optional share of variance removed by CUPED, from 0 to below 1 (e.g. 0.3 for 30%). The estimate is then CUPED-adjusted and the unadjusted plan is reported alongside",
+      required: false,
+    },
+    {
+      name: "preExperimentCorrelation",
+      type: ParameterType.Number,
+      description:
+        "Optional correlation between the metric before and during the test, as an alternative to varianceReduction (reduction = correlation squared)",
+      required: false,
+    },
+    {
+      name: "metricType",
+      type: ParameterType.String,
+      description:
+        'Optional metric type: "binary" for conversion rates (default) or "continuous" for numeric metrics such as revenue per visitor or AOV',
+      required: false,
+    },
+    {
+      name: "baselineMean",
+      type: ParameterType.Number,
+      description:
+        "The current average of a continuous metric (e.g., 42.5 for $42.50 AOV). Required when metricType is continuous",
+      required: false,
+    },
+    {
+      name: "standardDeviation",
+      type: ParameterType.Number,
+      description:
+        "The standard deviation of a continuous metric per visitor. Required when metricType is continuous unless variance is given",
+      required: false,
+    },
+    {
+      name: "variance",
+      type: ParameterType.Number,
+      description:
+        "The variance of a continuous metric per visitor, as an alternative to standardDeviation",
+      required: false,
+    },
+    {
+      name: "bayesian",
+      type: ParameterType.Boolean,
+      description:
+        "Optional: also estimate the days until the expected loss of shipping the leader falls below lossThreshold (binary metrics only)",
+      required: false,
+    },
+    {
+      name: "lossThreshold",
+      type: ParameterType.Number,
+      description:
+        "Optional expected loss to accept for the Bayesian estimate, relative to BCR (default 0.001 = 0.1% of the baseline rate)",
+      required: false,
+    },
+    {
+      name: "priorAlpha",
+      type: ParameterType.Number,
+      description:
+        "Optional Beta prior alpha (prior conversions) for the Bayesian estimate (default 1)",
+      required: false,
+    },
+    {
+      name: "priorBeta",
+      type: ParameterType.Number,
+      description:
+        "Optional Beta prior beta (prior non-conversions) for the Bayesian estimate (default 1)",
+      required: false,
+    },
+    {
+      name: "simulationSeed",
+      type: ParameterType.Number,
+      description:
+        "Optional whole-number seed for the Bayesian simulation; the same seed always gives the same estimate (default 1)",
+      required: false,
+    },
   ],
 })(calculateRuntime);
 
 tool({
-  name: "generate_pdf_from_markdown",
-  description: `📄 MARKDOWN TO PDF CONVERTER - Generate professional PDFs from markdown content
+  name: "calculate_detectable_mde",
+  description: `🎯 DETECTABLE EFFECT CALCULATOR - Smallest MDE you can detect within a fixed test window
 
-✨ FEATURES:
-• Full markdown support (headers, lists, tables, code blocks)
-• Professional styling with proper typography
-• Temporary download URLs (expires after 24 hours)
-• Custom filename support
+📊 CALCULATES: The smallest relative MDE that reaches statistical significance within your day budget (the inverse of calculate_experiment_runtime)
 
-📝 SUPPORTED MARKDOWN:
-• Headers (# ## ###), emphasis (*italic* **bold**)
-• Lists (ordered/unordered), tables, code blocks
-• Links and basic formatting
+⚡ KEY INPUTS:
+• BCR: Current conversion rate (0.05 = 5%)
+• Significance: Confidence level (95 = 95% confidence)
+• Variations: Total including control (2 = A/B test)
+• Daily visitors: Actual test participants per day
+• Max days: The test window you have (e.g., 14)
 
-💡 USAGE TIPS:
-• Great for reports, documentation, experiment summaries
-• Files auto-cleanup after expiration
-• Use descriptive filenames for better organization`,
+📋 RETURNS:
+• detectableMDE (relative) and absoluteMDE
+• estimate: the full calculate_experiment_runtime breakdown at that MDE
+
+💡 USE WHEN: Stakeholders come with a deadline ("we have 14 days") rather than an effect size
+
+🔄 UNITS: Percent strings and common unit slips are normalized as in calculate_experiment_runtime; inputInterpretations in the response lists every value that was reinterpreted`,
   parameters: [
     {
-      name: "markdown",
-      type: ParameterType.String,
-      description: "The markdown content to convert to PDF",
+      name: "BCR",
+      type: ParameterType.Number,
+      description:
+        "The conversion rate of the control group (e.g., 0.1 for 10%)",
       required: true,
     },
     {
-      name: "filename",
-      type: ParameterType.String,
+      name: "sigLevel",
+      type: ParameterType.Number,
+      description: "The desired statistical significance (e.g., 95 for 95%)",
+      required: true,
+    },
+    {
+      name: "numVariations",
+      type: ParameterType.Number,
+      description: "The total number of variations, including control",
+      required: true,
+    },
+    {
+      name: "dailyVisitors",
+      type: ParameterType.Number,
       description:
-        "Optional custom filename for the PDF (without .pdf extension)",
+        "The number of visitors per day participating in the experiment",
+      required: true,
+    },
+    {
+      name: "maxDays",
+      type: ParameterType.Number,
+      description: "The number of days available to run the experiment (e.g., 14)",
+      required: true,
+    },
+    {
+      name: "power",
+      type: ParameterType.Number,
+      description:
+        "Optional statistical power for the fixed-horizon estimate (e.g., 80 for 80%, the default)",
+      required: false,
+    },
+  ],
+})(calculateDetectableMde);
+
+tool({
+  name: "calculate_required_traffic",
+  description: `🚦 REQUIRED TRAFFIC CALCULATOR - Daily visitors needed to finish a test on schedule
+
+📊 CALCULATES: How many visitors per day the experiment needs to reach statistical significance within your target duration
+
+⚡ KEY INPUTS:
+• BCR: Current conversion rate (0.05 = 5%)
+• MDE: Minimum detectable effect (0.10 = 10% improvement)
+• Significance: Confidence level (95 = 95% confidence)
+• Variations: Total including control (2 = A/B test)
+• Target days: When the test needs to finish (e.g., 21)
+• Total daily traffic: Optional visitors per day to the page/site before allocation
+
+📋 RETURNS:
+• requiredDailyVisitors for the Stats Engine style estimate
+• trafficAllocationPercent and exceedsAvailableTraffic when total traffic is supplied
+• fixedHorizon: the same figures for the fixed-horizon z-test at the requested power
+• sampleSize: the underlying sample-size breakdown
+
+💡 USE WHEN: Deciding how much traffic to allocate to an experiment to finish by a deadline
+
+🔄 UNITS: Percent strings and common unit slips are normalized as in calculate_experiment_runtime; inputInterpretations in the response lists every value that was reinterpreted`,
+  parameters: [
+    {
+      name: "BCR",
+      type: ParameterType.Number,
+      description:
+        "The conversion rate of the control group (e.g., 0.1 for 10%)",
+      required: true,
+    },
+    {
+      name: "MDE",
+      type: ParameterType.Number,
+      description: "The relative lift you want to detect (e.g., 0.05 for 5%)",
+      required: true,
+    },
+    {
+      name: "sigLevel",
+      type: ParameterType.Number,
+      description: "The desired statistical significance (e.g., 95 for 95%)",
+      required: true,
+    },
+    {
+      name: "numVariations",
+      type: ParameterType.Number,
+      description: "The total number of variations, including control",
+      required: true,
+    },
+    {
+      name: "targetDays",
+      type: ParameterType.Number,
+      description: "The number of days the experiment should run (e.g., 21)",
+      required: true,
+    },
+    {
+      name: "totalDailyTraffic",
+      type: ParameterType.Number,
+      description:
+        "Optional total visitors per day to the page or site, used to compute the traffic allocation percentage",
+      required: false,
+    },
+    {
+      name: "power",
+      type: ParameterType.Number,
+      description:
+        "Optional statistical power for the fixed-horizon estimate (e.g., 80 for 80%, the default)",
+      required: false,
+    },
+  ],
+})(calculateRequiredTraffic);
+
+tool({
+  name: "calculate_runtime_grid",
+  description: `📐 RUNTIME SENSITIVITY GRID - Compare experiment durations across scenarios in one call
+
+📊 CALCULATES: Days to significance for every combination of MDE, significance level and daily visitors
+
+⚡ KEY INPUTS:
+• BCR: Current conversion rate (0.05 = 5%)
+• MDE, sigLevel, dailyVisitors: Each a single number, a list ([0.05, 0.1, 0.2]) or a range ({"start": 0.05, "end": 0.2, "step": 0.05})
+• Variations: Total including control (2 = A/B test)
+
+📋 RETURNS:
+• tables: One matrix per significance level (rows = MDE, columns = daily visitors)
+• Cells over the maximum duration (maxDurationDays, default 365) are marked "too_long" instead of failing the whole grid
+• markdown: Ready-to-paste tables for test plans and reports
+
+💡 USE WHEN: Planning a test and weighing trade-offs instead of calling calculate_experiment_runtime repeatedly
+
+🔄 UNITS: Percent strings and common unit slips are normalized as in calculate_experiment_runtime, for single numbers and each value of a list; inputInterpretations in the response lists every value that was reinterpreted. Range bounds are used as given, so write them in the calculator's units (MDE 0.05, sigLevel 95), not as "5%" strings`,
+  parameters: [
+    {
+      name: "BCR",
+      type: ParameterType.Number,
+      description:
+        "The conversion rate of the control group (e.g., 0.1 for 10%)",
+      required: true,
+    },
+    {
+      name: "MDE",
+      type: ParameterType.Dictionary,
+      description:
+        'Relative lifts to compare: a number, a list (e.g. [0.05, 0.1, 0.2]) or a range (e.g. {"start": 0.05, "end": 0.2, "step": 0.05})',
+      required: true,
+    },
+    {
+      name: "sigLevel",
+      type: ParameterType.Dictionary,
+      description:
+        "Significance levels to compare: a number, a list (e.g. [90, 95, 99]) or a range",
+      required: true,
+    },
+    {
+      name: "numVariations",
+      type: ParameterType.Number,
+      description: "The total number of variations, including control",
+      required: true,
+    },
+    {
+      name: "dailyVisitors",
+      type: ParameterType.Dictionary,
+      description:
+        "Daily visitor levels to compare: a number, a list (e.g. [1000, 5000, 10000]) or a range",
+      required: true,
+    },
+    {
+      name: "power",
+      type: ParameterType.Number,
+      description:
+        "Optional statistical power for the fixed-horizon estimate (e.g., 80 for 80%, the default)",
+      required: false,
+    },
+    {
+      name: "correction",
+      type: ParameterType.String,
+      description:
+        'Optional multiple-comparison correction: "none" (default), "bonferroni", "sidak" or "fdr"',
+      required: false,
+    },
+    {
+      name: "numMetrics",
+      type: ParameterType.Number,
+      description:
+        "Optional number of metrics each variation is evaluated on, used by the correction (default 1)",
+      required: false,
+    },
+    {
+      name: "cycleDays",
+      type: ParameterType.Number,
+      description:
+        "Optional business cycle length in days to round each duration up to (e.g. 7 for full weeks)",
+      required: false,
+    },
+    {
+      name: "maxDurationDays",
+      type: ParameterType.Number,
+      description:
+        "Optional longest acceptable experiment in days; longer cells are marked too_long. Defaults to the server's MAX_EXPERIMENT_DAYS setting, or 365",
+      required: false,
+    },
+    {
+      name: "testType",
+      type: ParameterType.String,
+      description:
+        'Optional test type: "superiority" (default), "non_inferiority" or "equivalence". For the latter two the MDE values are margins',
+      required: false,
+    },
+  ],
+})(calculateRuntimeGrid);
+
+tool({
+  name: "simulate_experiment_runtime",
+  description: `🎲 RUNTIME SIMULATION CHECK - Verify the runtime estimate delivers its stated error rates
+
+📊 CALCULATES: Runs thousands of synthetic experiments with random conversions at the estimated duration and measures how often they are wrongly or rightly significant
+
+⚡ KEY INPUTS:
+• BCR, MDE, sigLevel, numVariations, dailyVisitors: Same as calculate_experiment_runtime
+• simulations: Optional number of simulated experiments (default 2000, max 20000)
+• seed: Optional seed; the same inputs and seed always give the same result
+
+📋 RETURNS:
+• fixedHorizon: Observed false-positive rate vs alpha and power vs the requested power, with withinTolerance flags
+• sequential: False-positive rate of daily-monitored sequential testing (should not exceed alpha) and the share of tests significant by the estimated day
+• estimate: The runtime estimate that was simulated
+
+💡 USE WHEN: Someone asks whether the calculator's numbers can be trusted for a particular design
+
+🔄 UNITS: Percent strings and common unit slips are normalized as in calculate_experiment_runtime; inputInterpretations in the response lists every value that was reinterpreted`,
+  parameters: [
+    {
+      name: "BCR",
+      type: ParameterType.Number,
+      description:
+        "The conversion rate of the control group (e.g., 0.1 for 10%)",
+      required: true,
+    },
+    {
+      name: "MDE",
+      type: ParameterType.Number,
+      description:
+        "The relative minimum detectable effect (e.g., 0.1 for 10%)",
+      required: true,
+    },
+    {
+      name: "sigLevel",
+      type: ParameterType.Number,
+      description: "The significance level (e.g., 95 for 95%)",
+      required: true,
+    },
+    {
+      name: "numVariations",
+      type: ParameterType.Number,
+      description: "The total number of variations, including control",
+      required: true,
+    },
+    {
+      name: "dailyVisitors",
+      type: ParameterType.Number,
+      description: "The number of daily visitors to the experiment",
+      required: true,
+    },
+    {
+      name: "power",
+      type: ParameterType.Number,
+      description:
+        "Optional statistical power for the fixed-horizon estimate (e.g., 80 for 80%, the default)",
+      required: false,
+    },
+    {
+      name: "correction",
+      type: ParameterType.String,
+      description:
+        'Optional multiple-comparison correction: "none" (default), "bonferroni", "sidak" or "fdr"',
+      required: false,
+    },
+    {
+      name: "numMetrics",
+      type: ParameterType.Number,
+      description:
+        "Optional number of metrics each variation is evaluated on, used by the correction (default 1)",
+      required: false,
+    },
+    {
+      name: "variationWeights",
+      type: ParameterType.Dictionary,
+      description:
+        "Optional traffic weight per variation including control (e.g. [80, 20]). Defaults to an equal split",
+      required: false,
+    },
+    {
+      name: "simulations",
+      type: ParameterType.Number,
+      description:
+        "Optional number of simulated experiments (default 2000, max 20000)",
+      required: false,
+    },
+    {
+      name: "seed",
+      type: ParameterType.Number,
+      description:
+        "Optional whole-number seed for the simulation (default 1)",
+      required: false,
+    },
+  ],
+})(simulateRuntime);
+
+tool({
+  name: "analyze_experiment_results",
+  description: `🔬 EXPERIMENT RESULTS ANALYSIS - Significance and confidence intervals from raw visitor and conversion counts
+
+📊 CALCULATES: For each variation against control, the lift, confidence intervals, p-value and a Stats Engine style sequential significance
+
+⚡ KEY INPUTS:
+• variations: Visitors and conversions per variation, control first (e.g. exported from another testing or analytics tool)
+• sigLevel: Optional confidence level (95 = 95%, the default)
+• MDE: Optional relative effect the test was planned for, used by the sequential test (default 0.1)
+
+📋 RETURNS:
+• absoluteLift / relativeLift with confidence intervals
+• pValue and significant: Classic fixed-horizon z-test
+• sequential: Always-valid p-value and significance, correct even if results were checked while the test ran
+
+💡 USE WHEN: Someone has result counts from outside Optimizely and asks whether a variation won`,
+  parameters: [
+    {
+      name: "variations",
+      type: ParameterType.Dictionary,
+      description:
+        'Array of counts, control first, e.g. [{"name":"Control","visitors":10000,"conversions":1000},{"name":"B","visitors":10000,"conversions":1100}]',
+      required: true,
+    },
+    {
+      name: "sigLevel",
+      type: ParameterType.Number,
+      description: "Optional significance level (e.g., 95 for 95%, the default)",
+      required: false,
+    },
+    {
+      name: "MDE",
+      type: ParameterType.Number,
+      description:
+        "Optional relative effect the test was planned for (e.g., 0.05 for 5%); tunes the sequential test. Defaults to 0.1",
+      required: false,
+    },
+  ],
+})(analyzeExperimentCounts);
+
+tool({
+  name: "check_sample_ratio_mismatch",
+  description: `⚖️ SAMPLE RATIO MISMATCH CHECK - Detect broken traffic splits before trusting results
+
+📊 CALCULATES: Chi-square test of the visitors each variation received against its configured traffic weight
+
+⚡ KEY INPUTS:
+• visitors: Visitors per variation, in order
+• weights: Optional traffic weight per variation (e.g. [50, 50] or Optimizely's [5000, 5000]); defaults to an equal split
+• threshold: Optional p-value below which a mismatch is flagged (default 0.001)
+
+📋 RETURNS:
+• mismatch: true when the split is very unlikely to be chance
+• pValue, chiSquare and expected vs observed shares per variation
+
+💡 USE WHEN: Results look surprising, or before calling a winner. get_experiment_results runs this check automatically as sample_ratio_mismatch`,
+  parameters: [
+    {
+      name: "visitors",
+      type: ParameterType.Dictionary,
+      description: "Array of visitors per variation, e.g. [5023, 4977]",
+      required: true,
+    },
+    {
+      name: "weights",
+      type: ParameterType.Dictionary,
+      description:
+        "Optional array of traffic weights in the same order, e.g. [80, 20]. Defaults to an equal split",
+      required: false,
+    },
+    {
+      name: "names",
+      type: ParameterType.Dictionary,
+      description: 'Optional array of variation names, e.g. ["Control", "B"]',
+      required: false,
+    },
+    {
+      name: "threshold",
+      type: ParameterType.Number,
+      description:
+        "Optional p-value threshold for flagging a mismatch (default 0.001)",
+      required: false,
+    },
+  ],
+})(checkSampleRatioMismatch);
+
+tool({
+  name: "calculate_remaining_runtime",
+  description: `⏳ REMAINING RUNTIME FOR A LIVE EXPERIMENT - How many more days until a running Optimizely experiment can reach significance
+
+📊 CALCULATES: Days still needed to detect the MDE, using the experiment's own results instead of typed-in analytics numbers
+
+⚡ KEY INPUTS:
+• projectId and experimentId: The running Optimizely experiment
+• MDE: Relative improvement to detect (0.05 = 5% lift)
+• sigLevel: Optional confidence threshold (defaults to 90, Optimizely's default)
+
+📋 RETURNS:
+• observedBCR: Control conversion rate so far
+• observedDailyVisitors: Visitors per day since the experiment started
+• remainingDays and estimatedEndDate: Time left on top of the days already run
+• estimate: The full runtime estimate, or feasible: false with suggestions when over the maximum duration
+
+💡 USE WHEN: Someone asks "how much longer does this test need?"
+
+🔄 UNITS: Percent strings and common unit slips are normalized as in calculate_experiment_runtime; inputInterpretations in the response lists every value that was reinterpreted`,
+  parameters: [
+    {
+      name: "projectId",
+      type: ParameterType.String,
+      description: "The Optimizely project ID",
+      required: true,
+    },
+    {
+      name: "experimentId",
+      type: ParameterType.String,
+      description: "The ID of the running experiment",
+      required: true,
+    },
+    {
+      name: "MDE",
+      type: ParameterType.Number,
+      description:
+        "The relative minimum detectable effect to plan for (e.g., 0.05 for 5%)",
+      required: true,
+    },
+    {
+      name: "sigLevel",
+      type: ParameterType.Number,
+      description:
+        "Optional significance level (e.g., 95 for 95%). Defaults to 90",
+      required: false,
+    },
+    {
+      name: "power",
+      type: ParameterType.Number,
+      description:
+        "Optional statistical power for the fixed-horizon estimate (e.g., 80 for 80%, the default)",
+      required: false,
+    },
+    {
+      name: "correction",
+      type: ParameterType.String,
+      description:
+        'Optional multiple-comparison correction: "none" (default), "bonferroni", "sidak" or "fdr"',
+      required: false,
+    },
+    {
+      name: "numMetrics",
+      type: ParameterType.Number,
+      description:
+        "Optional number of metrics each variation is evaluated on, used by the correction (default 1)",
+      required: false,
+    },
+    {
+      name: "maxDurationDays",
+      type: ParameterType.Number,
+      description:
+        "Optional longest acceptable experiment in days, counted from the start. Defaults to the server's MAX_EXPERIMENT_DAYS setting, or 365",
+      required: false,
+    },
+  ],
+})(calculateRemainingRuntime);
+
+tool({
+  name: "calculate_runtime_from_history",
+  description: `🗂️ RUNTIME FROM PAST EXPERIMENTS - Estimate a new test's duration using traffic from concluded experiments on the same page
+
+📊 CALCULATES: Default BCR and daily visitors from past Optimizely experiments, then the runtime for the new test
+
+⚡ KEY INPUTS:
+• projectId: The Optimizely project
+• pageId or url: The page the new test will run on (e.g. "checkout")
+• MDE, sigLevel, numVariations: The new test's design
+• BCR / dailyVisitors: Optional overrides for either historical default; with both, no past experiments are loaded
+
+📋 RETURNS:
+• BCR: Pooled control conversion rate of the past experiments
+• dailyVisitors: Median visitors per day of the past experiments
+• history: The experiments used and their individual rates (left out when both overrides are given)
+• estimate: The runtime estimate, or feasible: false with suggestions when over the maximum duration
+
+💡 USE WHEN: Someone asks "how long would a test on the checkout page take?" without analytics numbers to hand
+
+🔄 UNITS: Percent strings and common unit slips are normalized as in calculate_experiment_runtime; inputInterpretations in the response lists every value that was reinterpreted`,
+  parameters: [
+    {
+      name: "projectId",
+      type: ParameterType.String,
+      description: "The Optimizely project ID",
+      required: true,
+    },
+    {
+      name: "pageId",
+      type: ParameterType.String,
+      description:
+        "The Optimizely page ID the new test targets (optional if url is provided)",
+      required: false,
+    },
+    {
+      name: "url",
+      type: ParameterType.String,
+      description:
+        "Part of the URL the new test targets, e.g. \"/checkout\" (optional if pageId is provided)",
+      required: false,
+    },
+    {
+      name: "MDE",
+      type: ParameterType.Number,
+      description:
+        "The relative minimum detectable effect for the new test (e.g., 0.05 for 5%)",
+      required: true,
+    },
+    {
+      name: "sigLevel",
+      type: ParameterType.Number,
+      description: "The significance level (e.g., 95 for 95%)",
+      required: true,
+    },
+    {
+      name: "numVariations",
+      type: ParameterType.Number,
+      description: "The total number of variations, including control",
+      required: true,
+    },
+    {
+      name: "BCR",
+      type: ParameterType.Number,
+      description:
+        "Optional baseline conversion rate to use instead of the historical one",
+      required: false,
+    },
+    {
+      name: "dailyVisitors",
+      type: ParameterType.Number,
+      description:
+        "Optional daily visitors to use instead of the historical median",
+      required: false,
+    },
+    {
+      name: "power",
+      type: ParameterType.Number,
+      description:
+        "Optional statistical power for the fixed-horizon estimate (e.g., 80 for 80%, the default)",
+      required: false,
+    },
+    {
+      name: "correction",
+      type: ParameterType.String,
+      description:
+        'Optional multiple-comparison correction: "none" (default), "bonferroni", "sidak" or "fdr"',
+      required: false,
+    },
+    {
+      name: "numMetrics",
+      type: ParameterType.Number,
+      description:
+        "Optional number of metrics each variation is evaluated on, used by the correction (default 1)",
+      required: false,
+    },
+    {
+      name: "cycleDays",
+      type: ParameterType.Number,
+      description:
+        "Optional business cycle length in days to round the duration up to (e.g. 7 for full weeks)",
+      required: false,
+    },
+    {
+      name: "maxDurationDays",
+      type: ParameterType.Number,
+      description:
+        "Optional longest acceptable experiment in days. Defaults to the server's MAX_EXPERIMENT_DAYS setting, or 365",
+      required: false,
+    },
+    {
+      name: "maxExperiments",
+      type: ParameterType.Number,
+      description:
+        "Optional number of most recent concluded experiments to use (default 5)",
+      required: false,
+    },
+  ],
+})(calculateRuntimeFromHistory);
+
+tool({
+  name: "generate_experiment_plan",
+  description: `📝 EXPERIMENT PLAN REPORT - Runtime, sensitivity and risks in one PDF
+
+📊 CREATES: A templated plan document with the hypothesis, metrics, design table, runtime table (sequential and fixed-horizon), sensitivity grid and risks, rendered to PDF
+
+⚡ KEY INPUTS:
+• hypothesis: What you change and the outcome you expect
+• primaryMetric and optional secondaryMetrics
+• BCR, MDE, sigLevel, numVariations, dailyVisitors: Same as calculate_experiment_runtime
+• risks: Optional known risks; design risks (short tests, uncorrected A/B/n, unequal splits) are added automatically
+
+📋 RETURNS:
+• pdfUrl and expiresAt for the generated document
+• feasible and days from the runtime estimate
+• markdown: The plan text, for pasting into Jira or Confluence
+
+💡 USE WHEN: Writing up a test plan instead of calculating the runtime and hand-writing markdown for generate_pdf_from_markdown
+
+🔄 UNITS: Percent strings and common unit slips are normalized as in calculate_experiment_runtime; inputInterpretations in the response lists every value that was reinterpreted`,
+  parameters: [
+    {
+      name: "title",
+      type: ParameterType.String,
+      description: 'Optional document title (default "Experiment Plan")',
+      required: false,
+    },
+    {
+      name: "hypothesis",
+      type: ParameterType.String,
+      description:
+        "The hypothesis: the change and the outcome you expect, and why",
+      required: true,
+    },
+    {
+      name: "primaryMetric",
+      type: ParameterType.String,
+      description: "The metric that decides the test (e.g. Checkout start rate)",
+      required: true,
+    },
+    {
+      name: "secondaryMetrics",
+      type: ParameterType.Dictionary,
+      description:
+        'Optional array of secondary or guardrail metric names, e.g. ["Revenue per visitor", "Bounce rate"]',
+      required: false,
+    },
+    {
+      name: "BCR",
+      type: ParameterType.Number,
+      description:
+        "The conversion rate of the primary metric in control (e.g., 0.1 for 10%)",
+      required: true,
+    },
+    {
+      name: "MDE",
+      type: ParameterType.Number,
+      description: "The relative lift you want to detect (e.g., 0.05 for 5%)",
+      required: true,
+    },
+    {
+      name: "sigLevel",
+      type: ParameterType.Number,
+      description: "The desired statistical significance (e.g., 95 for 95%)",
+      required: true,
+    },
+    {
+      name: "numVariations",
+      type: ParameterType.Number,
+      description: "The total number of variations, including control",
+      required: true,
+    },
+    {
+      name: "dailyVisitors",
+      type: ParameterType.Number,
+      description:
+        "The number of visitors per day participating in the experiment",
+      required: true,
+    },
+    {
+      name: "power",
+      type: ParameterType.Number,
+      description:
+        "Optional statistical power for the fixed-horizon estimate (e.g., 80 for 80%, the default)",
+      required: false,
+    },
+    {
+      name: "correction",
+      type: ParameterType.String,
+      description:
+        'Optional multiple-comparison correction: "none" (default), "bonferroni", "sidak" or "fdr"',
+      required: false,
+    },
+    {
+      name: "variationWeights",
+      type: ParameterType.Dictionary,
+      description:
+        "Optional array of traffic weights, one per variation including control (e.g. [80, 20])",
+      required: false,
+    },
+    {
+      name: "cycleDays",
+      type: ParameterType.Number,
+      description:
+        "Optional business cycle length in days to round the duration up to (e.g. 7)",
+      required: false,
+    },
+    {
+      name: "startDate",
+      type: ParameterType.String,
+      description:
+        "Optional ISO start date (e.g. 2025-03-03); the plan then includes the end date",
+      required: false,
+    },
+    {
+      name: "maxDurationDays",
+      type: ParameterType.Number,
+      description:
+        "Optional longest acceptable experiment in days. Defaults to the server's MAX_EXPERIMENT_DAYS setting, or 365",
+      required: false,
+    },
+    {
+      name: "testType",
+      type: ParameterType.String,
+      description:
+        'Optional test type: "superiority" (default), "non_inferiority" or "equivalence"; for the latter two MDE is the margin',
+      required: false,
+    },
+    {
+      name: "risks",
+      type: ParameterType.Dictionary,
+      description:
+        'Optional array of known risks, e.g. ["Holiday traffic in week 3"]',
+      required: false,
+    },
+    {
+      name: "filename",
+      type: ParameterType.String,
+      description:
+        "Optional custom filename for the PDF (without .pdf extension)",
+      required: false,
+    },
+    {
+      name: "theme",
+      type: ParameterType.String,
+      description:
+        'Optional name of a PDF theme registered on the server (default "optimizely")',
+      required: false,
+    },
+    {
+      name: "themeOverrides",
+      type: ParameterType.Dictionary,
+      description:
+        "Optional per-request theme fields, as in generate_pdf_from_markdown",
+      required: false,
+    },
+  ],
+})(generateExperimentPlan);
+
+tool({
+  name: "generate_pdf_from_markdown",
+  description: `📄 MARKDOWN TO PDF CONVERTER - Generate professional PDFs from markdown content
+
+✨ FEATURES:
+• Full markdown support (headers, lists, tables, code blocks)
+• Professional styling with proper typography
+• Signed, expiring download URLs (1 hour by default), stored locally or in an S3-compatible bucket
+• Custom filename support
+• Themes: pick a server-registered theme by name, or override logo, colors, fonts and header/footer text per request
+• Running header/footer templates with {title}, {date}, {page} and {pages}, plus "Page X of Y" numbering
+• Optional linked table of contents built from the markdown headings
+• Bar and line charts from \`\`\`chart blocks holding JSON, rendered to SVG on the server
+
+📝 SUPPORTED MARKDOWN:
+• Headers (# ## ###), emphasis (*italic* **bold**)
+• Lists (ordered/unordered), tables, code blocks
+• Links and basic formatting
+• Charts: a \`\`\`chart block with {"type": "bar"|"line", "title", "unit", "labels": [...], "series": [{"name", "values": [...]}]}, or rows as {"data": [...], "x": "name", "y": "conversion_rate"} (e.g. the variations from get_experiment_results). Use null for missing values.
+
+💡 USAGE TIPS:
+• Great for reports, documentation, experiment summaries
+• Files auto-cleanup after expiration
+• Use descriptive filenames for better organization`,
+  parameters: [
+    {
+      name: "markdown",
+      type: ParameterType.String,
+      description: "The markdown content to convert to PDF",
+      required: true,
+    },
+    {
+      name: "filename",
+      type: ParameterType.String,
+      description:
+        "Optional custom filename for the PDF (without .pdf extension)",
+      required: false,
+    },
+    {
+      name: "theme",
+      type: ParameterType.String,
+      description:
+        'Optional name of a theme registered on the server (default "optimizely")',
+      required: false,
+    },
+    {
+      name: "themeOverrides",
+      type: ParameterType.Dictionary,
+      description:
+        'Optional theme fields for this request: logoSvg, logoUrl (https or data URL), hideLogo, primaryColor, textColor, headingColor, accentColor, borderColor, fontFamily, headingFontFamily, headerText, footerText. E.g. {"primaryColor": "#0037ff", "headerText": "Prepared for Acme"}',
+      required: false,
+    },
+    {
+      name: "title",
+      type: ParameterType.String,
+      description:
+        "Optional document title for {title} in the header/footer (defaults to the first # heading, then the filename)",
+      required: false,
+    },
+    {
+      name: "header",
+      type: ParameterType.String,
+      description:
+        'Optional running header on every page. Placeholders: {title}, {date}, {page}, {pages}. E.g. "{title} | {date}"',
+      required: false,
+    },
+    {
+      name: "footer",
+      type: ParameterType.String,
+      description:
+        "Optional running footer on every page, same placeholders as header (defaults to the theme's footer text)",
+      required: false,
+    },
+    {
+      name: "pageNumbers",
+      type: ParameterType.Boolean,
+      description: 'Add "Page X of Y" to the footer (default: false)',
+      required: false,
+    },
+    {
+      name: "tableOfContents",
+      type: ParameterType.Boolean,
+      description:
+        "Add a linked table of contents built from the # headings, after the title heading (default: false)",
+      required: false,
+    },
+    {
+      name: "tocDepth",
+      type: ParameterType.Number,
+      description:
+        "Deepest heading level listed in the table of contents, 1-6 (default: 3)",
       required: false,
     },
   ],
@@ -572,7 +1547,7 @@ tool({
 tool({
   name: "get_experiment_results",
   description:
-    "Gets experiment results with statistical analysis including conversion rates, confidence levels, and winning variations.",
+    "Gets experiment results with statistical analysis including conversion rates, confidence levels, winning variations, and a sample ratio mismatch check of visitors against the traffic split. The variations can be charted in a PDF with a ```chart block using x \"name\" and y \"conversion_rate\" or \"improvement\".",
   parameters: [
     {
       name: "projectId",
@@ -0,0 +1,70 @@
+import { normalizeInputs, interpretInput } from './normalize-inputs';
+
+describe('Input Normalization', () => {
+  describe('interpretInput', () => {
+    it.each([
+      ['BCR', '5%', 'rate', 0.05],
+      ['BCR', 5, 'rate', 0.05],
+      ['BCR', '0.05', 'rate', 0.05],
+      ['MDE', '10%', 'relative', 0.1],
+      ['MDE', '150%', 'relative', 1.5],
+      ['MDE', '1.5', 'relative', 1.5],
+      ['sigLevel', 0.95, 'level', 95],
+      ['sigLevel', '0.95', 'level', 95],
+      ['sigLevel', '95%', 'level', 95],
+      ['dailyVisitors', '5,000', 'count', 5000],
+    ] as const)('should read %s %p as %p', (parameter, received, kind, expected) => {
+      const interpretation = interpretInput(parameter, received, kind);
+
+      expect(interpretation?.interpretedAs).toBe(expected);
+      expect(interpretation?.received).toBe(received);
+      expect(interpretation?.reason).toBeTruthy();
+    });
+
+    it.each([
+      ['BCR', 0.05, 'rate'],
+      ['MDE', 1, 'relative'],
+      ['MDE', 1.5, 'relative'],
+      ['MDE', 10, 'relative'],
+      ['sigLevel', 95, 'level'],
+      ['dailyVisitors', 5000, 'count'],
+    ] as const)('should leave %s %p in the expected unit alone', (parameter, received, kind) => {
+      expect(interpretInput(parameter, received, kind)).toBeUndefined();
+    });
+
+    it('should pass through values it cannot read', () => {
+      expect(interpretInput('BCR', 'five percent', 'rate')).toBeUndefined();
+      expect(interpretInput('dailyVisitors', '50%', 'count')).toBeUndefined();
+      expect(interpretInput('BCR', 250, 'rate')).toBeUndefined();
+    });
+  });
+
+  describe('normalizeInputs', () => {
+    it('should rewrite only the listed parameters and report each interpretation', () => {
+      const { params, interpretations } = normalizeInputs(
+        { BCR: 5 as number | string, MDE: 0.1, sigLevel: '95%' as number | string, label: '5%' },
+        { BCR: 'rate', MDE: 'relative', sigLevel: 'level' }
+      );
+
+      expect(params).toEqual({ BCR: 0.05, MDE: 0.1, sigLevel: 95, label: '5%' });
+      expect(interpretations.map((interpretation) => interpretation.parameter)).toEqual(['BCR', 'sigLevel']);
+    });
+
+    it('should normalize lists value by value and name the position', () => {
+      const { params, interpretations } = normalizeInputs(
+        { MDE: [0.05, '10%', '15%'] as (number | string)[] },
+        { MDE: 'relative' }
+      );
+
+      expect(params.MDE).toEqual([0.05, 0.1, 0.15]);
+      expect(interpretations.map((interpretation) => interpretation.parameter)).toEqual(['MDE[1]', 'MDE[2]']);
+    });
+
+    it('should skip missing values', () => {
+      const { params, interpretations } = normalizeInputs({ BCR: undefined as number | undefined }, { BCR: 'rate' });
+
+      expect(params.BCR).toBeUndefined();
+      expect(interpretations).toEqual([]);
+    });
+  });
+});
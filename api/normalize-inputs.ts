@@ -0,0 +1,142 @@
+/*
+Unit-aware Normalization of Calculator Inputs
+------------------------------------------------------
+Agents often send a value in the wrong unit (5 instead of 0.05 for a 5%
+conversion rate, 0.95 instead of 95 for significance) or as a string such as
+"5%" or "5,000". normalizeInputs rewrites those values into the units the
+calculator expects and records every interpretation it applied, so the
+response can show what was assumed instead of failing the call.
+
+rate = a proportion from 0 to 1 (BCR, varianceReduction): "5%" and 5 both
+       become 0.05, values from 1 up to 100 are read as percentages
+relative = a relative change (MDE): only "10%" is read as a percentage and
+           becomes 0.1, since a lift can exceed 100% and 1.5 or 10 may well
+           mean +150% or +1000%
+level = a percentage from 0 to 100 (sigLevel, power): "95%" and 95 stay 95,
+        values between 0 and 1 are read as decimals and become 95
+count = a plain number (dailyVisitors, numVariations): "5,000" becomes 5000
+
+Lists, such as the axes of a runtime grid, are normalized value by value and
+each interpretation names its position, e.g. MDE[1].
+
+Values that cannot be read as a number, or that are out of range in every
+interpretation, are passed through unchanged so the calculator's own
+validation reports them.
+*/
+
+export type InputKind = 'rate' | 'relative' | 'level' | 'count';
+
+export type InputInterpretation = {
+  parameter: string;
+  received: number | string;
+  interpretedAs: number;
+  reason: string;
+};
+
+export type NormalizedInputs<T> = {
+  params: T;
+  interpretations: InputInterpretation[];
+};
+
+// Digits with optional thousands separators, decimals and a trailing percent sign
+const NUMERIC_INPUT = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?\s*%?$/;
+
+export function normalizeInputs<T extends object>(
+  params: T,
+  kinds: Partial<Record<keyof T, InputKind>>
+): NormalizedInputs<T> {
+  const normalized = { ...params } as Record<string, unknown>;
+  const interpretations: InputInterpretation[] = [];
+
+  (Object.keys(kinds) as (keyof T & string)[]).forEach((parameter) => {
+    const kind = kinds[parameter] as InputKind;
+    const received = normalized[parameter];
+    if (Array.isArray(received)) {
+      normalized[parameter] = received.map((item, index) => {
+        if (typeof item !== 'number' && typeof item !== 'string') {
+          return item;
+        }
+        const interpretation = interpretInput(`${parameter}[${index}]`, item, kind);
+        if (!interpretation) {
+          return item;
+        }
+        interpretations.push(interpretation);
+        return interpretation.interpretedAs;
+      });
+      return;
+    }
+    if (typeof received !== 'number' && typeof received !== 'string') {
+      return;
+    }
+
+    const interpretation = interpretInput(parameter, received, kind);
+    if (interpretation) {
+      normalized[parameter] = interpretation.interpretedAs;
+      interpretations.push(interpretation);
+    }
+  });
+
+  return { params: normalized as T, interpretations };
+}
+
+// Returns undefined when the value is already in the expected unit or cannot be read
+export function interpretInput(
+  parameter: string,
+  received: number | string,
+  kind: InputKind
+): InputInterpretation | undefined {
+  const parsed = parseNumber(received);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const { value, percent } = parsed;
+  const fromString = typeof received === 'string';
+  const interpret = (interpretedAs: number, reason: string): InputInterpretation => ({
+    parameter,
+    received,
+    interpretedAs: Number(interpretedAs.toPrecision(12)),
+    reason,
+  });
+
+  if (kind === 'rate' || kind === 'relative') {
+    if (percent) {
+      return interpret(value / 100, `Read "${received}" as a percentage`);
+    }
+    if (kind === 'rate' && value >= 1 && value < 100) {
+      return interpret(
+        value / 100,
+        `${value} is outside the expected decimal range, so it was read as ${value}% (${Number((value / 100).toPrecision(12))})`
+      );
+    }
+  } else if (kind === 'level') {
+    if (!percent && value > 0 && value < 1) {
+      return interpret(
+        value * 100,
+        `${value} looks like a decimal, so it was read as ${Number((value * 100).toPrecision(12))}%`
+      );
+    }
+    if (percent) {
+      return interpret(value, `Read "${received}" as ${value}%`);
+    }
+  } else if (percent) {
+    // A percent sign on a count is most likely a mistake; leave it for validation
+    return undefined;
+  }
+
+  return fromString ? interpret(value, `Read the text "${received}" as the number ${value}`) : undefined;
+}
+
+function parseNumber(received: number | string): { value: number; percent: boolean } | undefined {
+  if (typeof received === 'number') {
+    return isFinite(received) ? { value: received, percent: false } : undefined;
+  }
+
+  const text = received.trim();
+  if (text === '' || text === '%' || !NUMERIC_INPUT.test(text)) {
+    return undefined;
+  }
+
+  const value = Number(text.replace(/[,%\s]/g, ''));
+  return isFinite(value) ? { value, percent: text.endsWith('%') } : undefined;
+}
@@ -0,0 +1,55 @@
+import { getExperimentResults } from './optimizely-tools';
+import { getOptimizelyClient } from './optimizely-client';
+
+jest.mock('./optimizely-client', () => ({
+  ...jest.requireActual('./optimizely-client'),
+  getOptimizelyClient: jest.fn(),
+}));
+
+describe('Optimizely Tools', () => {
+  describe('getExperimentResults', () => {
+    const experiment = {
+      id: 42,
+      name: 'Checkout button',
+      variations: [
+        { variation_id: '1', name: 'Original', weight: 5000 },
+        { variation_id: '2', name: 'Variation 1', weight: 5000 },
+      ],
+    };
+
+    const mockResults = (visitors: (number | undefined)[]) => {
+      (getOptimizelyClient as jest.Mock).mockReturnValue({
+        getExperiment: jest.fn().mockResolvedValue(experiment),
+        getExperimentResults: jest.fn().mockResolvedValue({
+          status: 'running',
+          visitors: 10000,
+          results: visitors.map((count, index) => ({
+            variation_id: String(index + 1),
+            variation_name: experiment.variations[index].name,
+            visitors: count,
+            conversions: 100,
+            conversion_rate: 0.02,
+          })),
+        }),
+      });
+    };
+
+    it('should include the sample ratio check', async () => {
+      mockResults([5000, 5000]);
+
+      const results = await getExperimentResults({ projectId: '123', experimentId: '42' });
+
+      expect(results.sample_ratio_mismatch?.detected).toBe(false);
+    });
+
+    it('should still return the results when the sample ratio cannot be checked', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockResults([5000, undefined]);
+
+      const results = await getExperimentResults({ projectId: '123', experimentId: '42' });
+
+      expect(results.variations).toHaveLength(2);
+      expect(results.sample_ratio_mismatch).toBeUndefined();
+    });
+  });
+});
@@ -2,6 +2,8 @@ import {
   getOptimizelyClient,
   OptimizelyClientError,
 } from "./optimizely-client";
+import { checkSampleRatio } from "./analyze-results";
+import type { SampleRatioCheck } from "./analyze-results";
 import type {
   ListExperimentsParams,
   ListAudiencesParams,
@@ -835,6 +837,7 @@ export async function getExperimentResults(
         total_conversions: totalConversions,
         overall_conversion_rate: Math.round(overallConversionRate * 100) / 100,
       },
+      sample_ratio_mismatch: checkResultsSampleRatio(experiment, results),
     };
   } catch (error) {
     if (error instanceof OptimizelyClientError) {
@@ -848,6 +851,56 @@ export async function getExperimentResults(
   }
 }
 
+/**
+ * Chi-square check of each variation's visitors against its traffic weight.
+ * Returns undefined when the weights or traffic needed for the check are missing
+ * or unusable, so a failed check never hides the results themselves.
+ */
+function checkResultsSampleRatio(
+  experiment: OptimizelyExperiment,
+  results: OptimizelyExperimentResults
+): FormattedExperimentResults["sample_ratio_mismatch"] {
+  const weights = new Map(
+    (experiment.variations || []).map((v) => [v.variation_id, v.weight])
+  );
+  const variations = (results.results || []).map((variation) => ({
+    name: variation.variation_name,
+    visitors: variation.visitors,
+    weight: weights.get(variation.variation_id),
+  }));
+
+  if (
+    variations.length < 2 ||
+    variations.some((v) => !v.weight) ||
+    variations.every((v) => !v.visitors)
+  ) {
+    return undefined;
+  }
+
+  let check: SampleRatioCheck;
+  try {
+    check = checkSampleRatio(variations);
+  } catch (error) {
+    console.warn(
+      `Skipped the sample ratio check for experiment ${experiment.id}:`,
+      error instanceof Error ? error.message : error
+    );
+    return undefined;
+  }
+
+  return {
+    detected: check.mismatch,
+    p_value: check.pValue,
+    chi_square: Math.round(check.chiSquare * 100) / 100,
+    threshold: check.threshold,
+    message: check.mismatch
+      ? `Sample ratio mismatch: visitor counts differ from the configured traffic split (p = ${check.pValue.toExponential(
+          2
+        )}). Check for assignment, redirect or tracking problems before trusting these results.`
+      : "Visitor counts are consistent with the configured traffic split.",
+  };
+}
+
 /**
  * Create Experiment Tool
  * Creates a new experiment in the specified project
@@ -388,6 +388,13 @@ export interface FormattedExperimentResults {
     total_conversions: number;
     overall_conversion_rate: number;
   };
+  sample_ratio_mismatch?: {
+    detected: boolean;
+    p_value: number;
+    chi_square: number;
+    threshold: number;
+    message: string;
+  };
 }
 
 // Project Overview types
@@ -0,0 +1,109 @@
+import { renderChartBlocks, parseChart, renderChartSvg, niceScale } from './pdf-chart';
+
+describe('PDF Charts', () => {
+  const variations = [
+    { id: '1', name: 'Original', visitors: 5000, conversions: 210, conversion_rate: 4.2 },
+    { id: '2', name: 'Variation 1', visitors: 5000, conversions: 240, conversion_rate: 4.8, improvement: 14.29 },
+    { id: '3', name: 'Variation 2', visitors: 5000, conversions: 195, conversion_rate: 3.9, improvement: -7.14 },
+  ];
+
+  describe('renderChartBlocks', () => {
+    it('should replace chart blocks with inline SVG and leave other code alone', () => {
+      const markdown = [
+        '## Results',
+        '```chart',
+        JSON.stringify({ type: 'bar', title: 'Conversion rate', unit: '%', x: 'name', y: 'conversion_rate', data: variations }),
+        '```',
+        '```json',
+        '{"not": "a chart"}',
+        '```',
+      ].join('\n');
+
+      const rendered = renderChartBlocks(markdown);
+
+      expect(rendered).toContain('\n<div class="chart"><svg xmlns="http://www.w3.org/2000/svg"');
+      expect(rendered).toContain('>Conversion rate</text>');
+      expect(rendered).toContain('>4.8%</text>');
+      expect(rendered).toContain('```json\n{"not": "a chart"}\n```');
+      expect(rendered).not.toContain('```chart');
+    });
+
+    it('should not render chart blocks nested in another fence', () => {
+      const markdown = ['````markdown', '```chart', '{}', '```', '````'].join('\n');
+
+      expect(renderChartBlocks(markdown)).toBe(markdown);
+    });
+
+    it('should name the chart that failed', () => {
+      const markdown = ['```chart', '{"labels": ["A"], "series": [{"values": [1]}]}', '```', '', '```chart', '{oops}', '```'].join('\n');
+
+      expect(() => renderChartBlocks(markdown)).toThrow(/^Invalid chart 2: the block must contain JSON/);
+    });
+  });
+
+  describe('parseChart', () => {
+    it('should read rows from getExperimentResults, leaving gaps for missing values', () => {
+      const chart = parseChart(JSON.stringify({ x: 'name', y: ['improvement'], data: variations }));
+
+      expect(chart.type).toBe('bar');
+      expect(chart.labels).toEqual(['Original', 'Variation 1', 'Variation 2']);
+      expect(chart.series).toEqual([{ name: 'Improvement', values: [null, 14.29, -7.14] }]);
+    });
+
+    it.each([
+      [{ type: 'pie', labels: ['A'], series: [{ values: [1] }] }, /type must be "bar" or "line"/],
+      [{ labels: ['A', 'B'], series: [{ name: 'CR', values: [1] }] }, /series "CR" has 1 values for 2 labels/],
+      [{ labels: ['A'], series: [{ values: ['high'] }] }, /must contain only numbers or null/],
+      [{ x: 'name', y: 'missing', data: variations }, /series "Missing" has no values/],
+      [{ x: 'name', data: variations }, /data must be an array of rows/],
+      [{ title: 'Empty' }, /expected labels and series, or data with x and y/],
+    ])('should reject %p', (spec, message) => {
+      expect(() => parseChart(JSON.stringify(spec))).toThrow(message);
+    });
+  });
+
+  describe('renderChartSvg', () => {
+    it('should draw negative values below the zero line', () => {
+      const chart = parseChart(JSON.stringify({ x: 'name', y: 'improvement', unit: '%', data: variations }));
+      const svg = renderChartSvg(chart);
+
+      expect(svg).toContain('>-7.14%</text>');
+      expect(svg).toContain('stroke="#999"');
+      expect(svg.match(/<rect /g)).toHaveLength(2);
+    });
+
+    it('should draw a line per series with a legend, breaking at gaps', () => {
+      const chart = parseChart(
+        JSON.stringify({
+          type: 'line',
+          labels: ['Week 1', 'Week 2', 'Week 3', 'Week 4'],
+          series: [
+            { name: 'Control', values: [4.1, 4.2, 4.2, 4.3] },
+            { name: 'Treatment', values: [4.4, null, 4.7, 4.8] },
+          ],
+        })
+      );
+      const svg = renderChartSvg(chart);
+
+      expect(svg.match(/<polyline /g)).toHaveLength(2);
+      expect(svg.match(/<circle /g)).toHaveLength(7);
+      expect(svg).toContain('>Treatment</text>');
+    });
+
+    it('should escape labels and titles', () => {
+      const svg = renderChartSvg(parseChart(JSON.stringify({ title: '<script>', labels: ['A & B'], series: [{ values: [1] }] })));
+
+      expect(svg).toContain('&lt;script&gt;');
+      expect(svg).toContain('A &amp; B');
+      expect(svg).not.toContain('<script>');
+    });
+  });
+
+  describe('niceScale', () => {
+    it('should round the axis out to 1, 2 or 5 times a power of ten', () => {
+      expect(niceScale(0, 4.8)).toEqual({ min: 0, max: 5, ticks: [0, 1, 2, 3, 4, 5] });
+      expect(niceScale(-7.14, 14.29)).toEqual({ min: -10, max: 15, ticks: [-10, -5, 0, 5, 10, 15] });
+      expect(niceScale(0, 0).max).toBe(1);
+    });
+  });
+});
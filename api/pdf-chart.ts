@@ -0,0 +1,337 @@
+/*
+Charts in PDF Markdown
+------------------------------------------------------
+A fenced code block with the language "chart" holding JSON is replaced by an
+inline SVG bar or line chart before the markdown is rendered, so reports can
+show conversion rates and lifts without calling an external chart service.
+
+The data is given either as labels and series:
+
+  ```chart
+  {"type": "bar", "title": "Conversion rate", "unit": "%",
+   "labels": ["Original", "Variation 1"],
+   "series": [{"name": "Conversion rate", "values": [4.2, 4.8]}]}
+  ```
+
+or as rows with the field to use for the labels (x) and the field(s) to plot
+(y), which fits the variations from getExperimentResults as they are:
+
+  ```chart
+  {"type": "bar", "unit": "%", "x": "name", "y": "conversion_rate",
+   "data": [{"name": "Original", "conversion_rate": 4.2}, ...]}
+  ```
+
+Missing values (null, or a row without the field, such as the control's
+improvement) leave a gap. The y axis always includes zero so negative lifts
+are drawn below the axis. A block with invalid JSON or data throws, naming
+the chart, instead of silently dropping it from the document.
+*/
+
+import { escapeHtml } from './pdf-theme';
+
+export type ChartType = 'bar' | 'line';
+
+export type ChartSeries = {
+  name?: string;
+  values: (number | null)[];
+};
+
+export type ChartSpec = {
+  type?: ChartType;
+  title?: string;
+  // Appended to axis ticks and value labels, e.g. "%"
+  unit?: string;
+  yLabel?: string;
+  labels?: string[];
+  series?: ChartSeries[];
+  data?: Record<string, unknown>[];
+  x?: string;
+  y?: string | string[];
+};
+
+export type Chart = {
+  type: ChartType;
+  title?: string;
+  unit: string;
+  yLabel?: string;
+  labels: string[];
+  series: Required<ChartSeries>[];
+};
+
+const WIDTH = 640;
+const HEIGHT = 320;
+const MARGIN = { top: 20, right: 20, bottom: 56, left: 64 };
+const MAX_LABELS = 50;
+const MAX_SERIES = 8;
+const MAX_LABEL_LENGTH = 18;
+const TARGET_TICKS = 5;
+
+const PALETTE = ['#0037ff', '#f26b1d', '#19a974', '#9b51e0', '#e02e5b', '#00a3bf', '#b58a00', '#6b7280'];
+
+const CHART_FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*chart[ \t]*$/i;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+export function renderChartBlocks(markdown: string): string {
+  const lines = markdown.split('\n');
+  const output: string[] = [];
+  let fence: string | undefined;
+  let chartNumber = 0;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const fenceMatch = line.match(FENCE);
+
+    if (fence) {
+      if (fenceMatch && isClosingFence(fenceMatch[1], fence) && line.trim() === fenceMatch[1]) {
+        fence = undefined;
+      }
+      output.push(line);
+      continue;
+    }
+
+    const chartMatch = line.match(CHART_FENCE);
+    if (chartMatch) {
+      const end = lines.findIndex(
+        (candidate, candidateIndex) =>
+          candidateIndex > index && isClosingFence(candidate.trim(), chartMatch[1])
+      );
+      // An unclosed block stays as code, as the markdown renderer would show it
+      if (end !== -1) {
+        chartNumber++;
+        const chart = parseChart(lines.slice(index + 1, end).join('\n'), chartNumber);
+        output.push('', `<div class="chart">${renderChartSvg(chart)}</div>`, '');
+        index = end;
+        continue;
+      }
+    }
+
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+    }
+    output.push(line);
+  }
+
+  return output.join('\n');
+}
+
+export function parseChart(json: string, chartNumber: number = 1): Chart {
+  const invalid = (reason: string) => new Error(`Invalid chart ${chartNumber}: ${reason}`);
+
+  let spec: ChartSpec;
+  try {
+    spec = JSON.parse(json);
+  } catch (error) {
+    throw invalid(`the block must contain JSON (${error instanceof Error ? error.message : 'parse error'}).`);
+  }
+  if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+    throw invalid('expected a JSON object with labels and series, or data with x and y.');
+  }
+
+  const type = spec.type ?? 'bar';
+  if (type !== 'bar' && type !== 'line') {
+    throw invalid(`type must be "bar" or "line". Received: ${type}.`);
+  }
+
+  let labels: string[];
+  let series: Required<ChartSeries>[];
+  if (spec.data !== undefined) {
+    const fields = Array.isArray(spec.y) ? spec.y : [spec.y];
+    if (!Array.isArray(spec.data) || typeof spec.x !== 'string' || fields.some((field) => typeof field !== 'string')) {
+      throw invalid('data must be an array of rows, with x naming the label field and y the value field(s).');
+    }
+    const rows = spec.data;
+    labels = rows.map((row) => String(row?.[spec.x as string] ?? ''));
+    series = fields.map((field) => ({
+      name: humanize(field as string),
+      values: rows.map((row) => {
+        const value = row?.[field as string];
+        return value === undefined || value === null ? null : (value as number);
+      }),
+    }));
+  } else {
+    if (!Array.isArray(spec.labels) || !Array.isArray(spec.series)) {
+      throw invalid('expected labels and series, or data with x and y.');
+    }
+    labels = spec.labels.map(String);
+    series = spec.series.map((item, seriesIndex) => ({
+      name: item?.name === undefined ? `Series ${seriesIndex + 1}` : String(item.name),
+      values: Array.isArray(item?.values) ? item.values : [],
+    }));
+  }
+
+  if (labels.length === 0 || labels.length > MAX_LABELS) {
+    throw invalid(`expected 1 to ${MAX_LABELS} labels. Received: ${labels.length}.`);
+  }
+  if (series.length === 0 || series.length > MAX_SERIES) {
+    throw invalid(`expected 1 to ${MAX_SERIES} series. Received: ${series.length}.`);
+  }
+  series.forEach(({ name, values }) => {
+    if (values.length !== labels.length) {
+      throw invalid(`series "${name}" has ${values.length} values for ${labels.length} labels.`);
+    }
+    if (values.some((value) => value !== null && (typeof value !== 'number' || !isFinite(value)))) {
+      throw invalid(`series "${name}" must contain only numbers or null.`);
+    }
+    if (values.every((value) => value === null)) {
+      throw invalid(`series "${name}" has no values.`);
+    }
+  });
+
+  return {
+    type,
+    title: spec.title === undefined ? undefined : String(spec.title),
+    unit: spec.unit === undefined ? '' : String(spec.unit),
+    yLabel: spec.yLabel === undefined ? undefined : String(spec.yLabel),
+    labels,
+    series,
+  };
+}
+
+export function renderChartSvg(chart: Chart): string {
+  const { labels, series, unit } = chart;
+  const showLegend = series.length > 1;
+  const top = MARGIN.top + (chart.title ? 20 : 0) + (showLegend ? 20 : 0);
+  const plot = { left: MARGIN.left, right: WIDTH - MARGIN.right, top, bottom: HEIGHT - MARGIN.bottom };
+
+  const values = series.flatMap((item) => item.values).filter((value): value is number => value !== null);
+  const { min, max, ticks } = niceScale(Math.min(0, ...values), Math.max(0, ...values));
+  const y = (value: number) => plot.bottom - ((value - min) / (max - min)) * (plot.bottom - plot.top);
+  const band = (plot.right - plot.left) / labels.length;
+  const center = (index: number) => plot.left + band * (index + 0.5);
+
+  const parts: string[] = [];
+
+  if (chart.title) {
+    parts.push(text(WIDTH / 2, MARGIN.top + 4, chart.title, { anchor: 'middle', size: 14, weight: 600 }));
+  }
+
+  if (showLegend) {
+    const legendY = MARGIN.top + (chart.title ? 20 : 0) + 4;
+    let legendX = plot.left;
+    series.forEach((item, seriesIndex) => {
+      parts.push(
+        `<rect x="${legendX}" y="${legendY - 9}" width="10" height="10" fill="${color(seriesIndex)}"/>`,
+        text(legendX + 14, legendY, truncate(item.name), { size: 11 })
+      );
+      legendX += 24 + truncate(item.name).length * 6.5;
+    });
+  }
+
+  ticks.forEach((tick) => {
+    parts.push(
+      `<line x1="${plot.left}" x2="${plot.right}" y1="${round(y(tick))}" y2="${round(y(tick))}" stroke="${tick === 0 ? '#999' : '#e5e5e5'}" stroke-width="1"/>`,
+      text(plot.left - 8, y(tick) + 4, formatValue(tick, unit), { anchor: 'end', size: 10, fill: '#666' })
+    );
+  });
+
+  if (chart.yLabel) {
+    const middle = (plot.top + plot.bottom) / 2;
+    parts.push(
+      `<text x="14" y="${round(middle)}" transform="rotate(-90 14 ${round(middle)})" text-anchor="middle" font-size="11" fill="#666">${escapeHtml(chart.yLabel)}</text>`
+    );
+  }
+
+  labels.forEach((label, index) => {
+    parts.push(text(center(index), plot.bottom + 18, truncate(label), { anchor: 'middle', size: 11 }));
+  });
+
+  if (chart.type === 'bar') {
+    const groupWidth = band * 0.7;
+    const barWidth = groupWidth / series.length;
+    series.forEach((item, seriesIndex) => {
+      item.values.forEach((value, index) => {
+        if (value === null) {
+          return;
+        }
+        const x = center(index) - groupWidth / 2 + barWidth * seriesIndex;
+        const barTop = Math.min(y(value), y(0));
+        parts.push(
+          `<rect x="${round(x)}" y="${round(barTop)}" width="${round(barWidth * 0.9)}" height="${round(Math.abs(y(value) - y(0)))}" fill="${color(seriesIndex)}"/>`
+        );
+        // Value labels only while they fit above the bars
+        if (labels.length * series.length <= 12) {
+          const labelY = value >= 0 ? y(value) - 4 : y(value) + 12;
+          parts.push(text(x + (barWidth * 0.9) / 2, labelY, formatValue(value, unit), { anchor: 'middle', size: 10 }));
+        }
+      });
+    });
+  } else {
+    series.forEach((item, seriesIndex) => {
+      // Break the line at missing values
+      const segments: string[][] = [[]];
+      item.values.forEach((value, index) => {
+        if (value === null) {
+          segments.push([]);
+          return;
+        }
+        segments[segments.length - 1].push(`${round(center(index))},${round(y(value))}`);
+        parts.push(`<circle cx="${round(center(index))}" cy="${round(y(value))}" r="3" fill="${color(seriesIndex)}"/>`);
+      });
+      segments
+        .filter((points) => points.length > 1)
+        .forEach((points) => {
+          parts.push(
+            `<polyline points="${points.join(' ')}" fill="none" stroke="${color(seriesIndex)}" stroke-width="2"/>`
+          );
+        });
+    });
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="100%" role="img">${parts.join('')}</svg>`;
+}
+
+// Axis bounds on round numbers (1, 2 or 5 times a power of ten) around min and max
+export function niceScale(min: number, max: number): { min: number; max: number; ticks: number[] } {
+  if (min === max) {
+    max = min + 1;
+  }
+  const rough = (max - min) / TARGET_TICKS;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough) as number;
+
+  const niceMin = Math.floor(min / step) * step;
+  const niceMax = Math.ceil(max / step) * step;
+  const ticks: number[] = [];
+  for (let tick = niceMin; tick <= niceMax + step / 2; tick += step) {
+    ticks.push(round(tick, 10));
+  }
+  return { min: niceMin, max: niceMax, ticks };
+}
+
+function isClosingFence(marker: string, opening: string): boolean {
+  return /^(`{3,}|~{3,})$/.test(marker) && marker[0] === opening[0] && marker.length >= opening.length;
+}
+
+function text(
+  x: number,
+  y: number,
+  content: string,
+  style: { anchor?: 'start' | 'middle' | 'end'; size: number; weight?: number; fill?: string }
+): string {
+  return `<text x="${round(x)}" y="${round(y)}" text-anchor="${style.anchor ?? 'start'}" font-size="${style.size}"${
+    style.weight ? ` font-weight="${style.weight}"` : ''
+  } fill="${style.fill ?? '#333'}">${escapeHtml(content)}</text>`;
+}
+
+function color(seriesIndex: number): string {
+  return PALETTE[seriesIndex % PALETTE.length];
+}
+
+function formatValue(value: number, unit: string): string {
+  return `${(Math.round(value * 100) / 100).toLocaleString('en-US')}${unit}`;
+}
+
+function truncate(label: string): string {
+  return label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+}
+
+// conversion_rate -> Conversion rate
+function humanize(field: string): string {
+  const words = field.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function round(value: number, decimals: number = 1): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
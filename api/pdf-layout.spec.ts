@@ -0,0 +1,100 @@
+import {
+  addTableOfContents,
+  buildPageTemplates,
+  extractHeadings,
+  fillTemplate,
+  resolveDocumentTitle,
+  validatePdfLayout,
+} from './pdf-layout';
+import { resolvePdfTheme } from './pdf-theme';
+
+describe('PDF Layout', () => {
+  const context = { title: 'Q3 Readout', date: new Date('2025-03-01T12:00:00Z') };
+
+  describe('buildPageTemplates', () => {
+    it('should leave the pages bare without a header, footer or page numbers', () => {
+      expect(buildPageTemplates(resolvePdfTheme(), {}, context)).toBeUndefined();
+    });
+
+    it('should fill the title, date and page placeholders', () => {
+      const templates = buildPageTemplates(resolvePdfTheme(), { header: '{title} - {date}', pageNumbers: true }, context);
+
+      expect(templates?.headerTemplate).toContain('Q3 Readout - 2025-03-01');
+      expect(templates?.footerTemplate).toContain(
+        'Page <span class="pageNumber"></span> of <span class="totalPages"></span>'
+      );
+    });
+
+    it('should fall back to the theme footer text and keep an empty header', () => {
+      const templates = buildPageTemplates(resolvePdfTheme('optimizely', { footerText: 'Confidential' }), {}, context);
+
+      expect(templates?.headerTemplate).toBe('<span></span>');
+      expect(templates?.footerTemplate).toContain('<span>Confidential</span>');
+    });
+  });
+
+  describe('fillTemplate', () => {
+    it('should escape template text and the title', () => {
+      expect(fillTemplate('<b>{title}</b> {unknown}', { ...context, title: 'A & B' })).toBe(
+        '&lt;b&gt;A &amp; B&lt;/b&gt; {unknown}'
+      );
+    });
+  });
+
+  describe('resolveDocumentTitle', () => {
+    it('should prefer the title option, then the first level 1 heading, then the filename', () => {
+      const markdown = '## Intro\n\n# **Delivery** Dates\n';
+
+      expect(resolveDocumentTitle(markdown, 'Custom', 'file')).toBe('Custom');
+      expect(resolveDocumentTitle(markdown, undefined, 'file')).toBe('Delivery Dates');
+      expect(resolveDocumentTitle('No headings', undefined, 'file')).toBe('file');
+    });
+  });
+
+  describe('extractHeadings', () => {
+    it('should skip headings inside fenced code blocks', () => {
+      const markdown = ['# Title', '```bash', '# not a heading', '```', '## [Results](https://example.com) ##', '#hashtag'].join('\n');
+
+      expect(extractHeadings(markdown)).toEqual([
+        { level: 1, text: 'Title', line: 0 },
+        { level: 2, text: 'Results', line: 4 },
+      ]);
+    });
+  });
+
+  describe('addTableOfContents', () => {
+    const markdown = ['# Readout', '', '## Summary', '', '## Results', '### Checkout', '#### Detail', '## Results'].join('\n');
+
+    it('should place linked, nested contents after the title heading', () => {
+      const withToc = addTableOfContents(markdown);
+
+      expect(withToc).toContain(
+        [
+          '**Contents**',
+          '',
+          '- [Summary](#section-summary)',
+          '- [Results](#section-results)',
+          '  - [Checkout](#section-checkout)',
+          '- [Results](#section-results-2)',
+        ].join('\n')
+      );
+      expect(withToc.indexOf('# Readout')).toBeLessThan(withToc.indexOf('**Contents**'));
+      expect(withToc).toContain('## <a id="section-summary"></a>Summary');
+      expect(withToc).toContain('## <a id="section-results-2"></a>Results');
+      expect(withToc).toContain('#### Detail');
+    });
+
+    it('should respect tocDepth and leave documents without headings alone', () => {
+      expect(addTableOfContents(markdown, 2)).not.toContain('[Checkout]');
+      expect(addTableOfContents('Just text')).toBe('Just text');
+    });
+  });
+
+  describe('validatePdfLayout', () => {
+    it('should reject an out-of-range tocDepth and overlong templates', () => {
+      expect(() => validatePdfLayout({ tocDepth: 7 })).toThrow(/tocDepth/);
+      expect(() => validatePdfLayout({ footer: 'x'.repeat(201) })).toThrow(/footer/);
+      expect(validatePdfLayout({ tocDepth: 2, header: '{title}' })).toEqual({ tocDepth: 2, header: '{title}' });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/*
+PDF Page Layout
+------------------------------------------------------
+Running headers and footers, page numbers and a table of contents for
+generated PDFs.
+
+Header and footer templates are plain text with placeholders, rendered by
+Chromium on every page:
+
+  {title} = the document title (the title option, else the first # heading,
+            else the filename)
+  {date}  = the generation date, YYYY-MM-DD
+  {page}  = the current page number
+  {pages} = the total number of pages
+
+pageNumbers adds "Page {page} of {pages}" to the right of the footer. The
+theme's footerText is used when no footer template is given.
+
+The table of contents lists the # headings (ATX style, outside fenced code
+blocks) up to tocDepth as links. Each listed heading gets an explicit anchor,
+since heading ids are turned off in the markdown renderer. When the document
+opens with a level 1 heading, that heading is treated as the title and the
+contents are placed right after it.
+*/
+
+import { escapeHtml } from './pdf-theme';
+import type { ResolvedPdfTheme } from './pdf-theme';
+
+export type PdfLayoutOptions = {
+  title?: string;
+  header?: string;
+  footer?: string;
+  pageNumbers?: boolean;
+  tableOfContents?: boolean;
+  // Deepest heading level listed in the table of contents, 1 to 6
+  tocDepth?: number;
+};
+
+export type PdfPageTemplates = {
+  headerTemplate: string;
+  footerTemplate: string;
+};
+
+export type MarkdownHeading = {
+  level: number;
+  text: string;
+  line: number;
+};
+
+const DEFAULT_TOC_DEPTH = 3;
+const TOC_TITLE = 'Contents';
+const PAGE_NUMBER_TEMPLATE = 'Page {page} of {pages}';
+const MAX_TEMPLATE_LENGTH = 200;
+
+// Chromium fills elements with these classes when it renders each page
+const PAGE_PLACEHOLDERS: Record<string, string> = {
+  page: '<span class="pageNumber"></span>',
+  pages: '<span class="totalPages"></span>',
+};
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+export function validatePdfLayout(options: PdfLayoutOptions): PdfLayoutOptions {
+  (['title', 'header', 'footer'] as const).forEach((key) => {
+    const value = options[key];
+    if (value !== undefined && (typeof value !== 'string' || value.length > MAX_TEMPLATE_LENGTH)) {
+      throw new Error(`Invalid PDF ${key}: expected text of at most ${MAX_TEMPLATE_LENGTH} characters.`);
+    }
+  });
+
+  const { tocDepth } = options;
+  if (tocDepth !== undefined && (!Number.isInteger(tocDepth) || tocDepth < 1 || tocDepth > 6)) {
+    throw new Error(`Invalid PDF tocDepth: expected a heading level from 1 to 6. Received: ${tocDepth}.`);
+  }
+
+  return options;
+}
+
+// Undefined when the document has no running header or footer
+export function buildPageTemplates(
+  theme: ResolvedPdfTheme,
+  options: PdfLayoutOptions,
+  context: { title: string; date: Date }
+): PdfPageTemplates | undefined {
+  const footerText = options.footer ?? theme.footerText;
+  const pageNumbers = options.pageNumbers ? PAGE_NUMBER_TEMPLATE : undefined;
+  if (!options.header && !footerText && !pageNumbers) {
+    return undefined;
+  }
+
+  const render = (left?: string, right?: string): string => {
+    if (!left && !right) {
+      // Chromium falls back to its own date and URL header for an empty template
+      return '<span></span>';
+    }
+    return [
+      `<div style="width: 100%; display: flex; justify-content: space-between; padding: 0 15mm; font-size: 9px; font-family: ${escapeHtml(theme.fontFamily)}; color: ${theme.textColor};">`,
+      `<span>${left ? fillTemplate(left, context) : ''}</span>`,
+      `<span>${right ? fillTemplate(right, context) : ''}</span>`,
+      '</div>',
+    ].join('');
+  };
+
+  return {
+    headerTemplate: render(options.header),
+    footerTemplate: render(footerText, pageNumbers),
+  };
+}
+
+export function fillTemplate(template: string, context: { title: string; date: Date }): string {
+  const values: Record<string, string> = {
+    ...PAGE_PLACEHOLDERS,
+    title: escapeHtml(context.title),
+    date: context.date.toISOString().slice(0, 10),
+  };
+  return escapeHtml(template).replace(/\{(title|date|page|pages)\}/g, (_, key: string) => values[key]);
+}
+
+export function resolveDocumentTitle(markdown: string, title?: string, filename?: string): string {
+  const firstTitle = extractHeadings(markdown).find((heading) => heading.level === 1);
+  return title?.trim() || firstTitle?.text || filename || '';
+}
+
+export function extractHeadings(markdown: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  let fence: string | undefined;
+
+  markdown.split('\n').forEach((line, index) => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = undefined;
+      }
+      return;
+    }
+    if (fence) {
+      return;
+    }
+
+    const match = line.match(HEADING_PATTERN);
+    if (match && match[2].trim() !== '') {
+      headings.push({ level: match[1].length, text: plainText(match[2]), line: index });
+    }
+  });
+
+  return headings;
+}
+
+export function addTableOfContents(markdown: string, tocDepth: number = DEFAULT_TOC_DEPTH): string {
+  const lines = markdown.split('\n');
+  const headings = extractHeadings(markdown);
+
+  // A leading level 1 heading is the document title, not an entry
+  const titleHeading = headings[0]?.level === 1 && lines.slice(0, headings[0].line).every((line) => line.trim() === '')
+    ? headings[0]
+    : undefined;
+  const entries = headings.filter((heading) => heading !== titleHeading && heading.level <= tocDepth);
+  if (entries.length === 0) {
+    return markdown;
+  }
+
+  const usedIds = new Set<string>();
+  const topLevel = Math.min(...entries.map((heading) => heading.level));
+  const items = entries.map((heading) => {
+    const id = uniqueId(heading.text, usedIds);
+    lines[heading.line] = lines[heading.line].replace(/^( {0,3}#{1,6}[ \t]+)/, `$1<a id="${id}"></a>`);
+    return `${'  '.repeat(heading.level - topLevel)}- [${escapeLinkText(heading.text)}](#${id})`;
+  });
+
+  const toc = `**${TOC_TITLE}**\n\n${items.join('\n')}\n`;
+  const insertAt = titleHeading ? titleHeading.line + 1 : 0;
+  lines.splice(insertAt, 0, ...(titleHeading ? ['', toc] : [toc, '']));
+  return lines.join('\n');
+}
+
+// Heading text without inline markdown or HTML
+function plainText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|\*|_|~~|`)(.+?)\1/g, '$2')
+    .replace(/\\([\\`*_{}[\]()#+\-.!])/g, '$1')
+    .trim();
+}
+
+function uniqueId(text: string, usedIds: Set<string>): string {
+  const slug = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'section';
+
+  let id = `section-${slug}`;
+  for (let suffix = 2; usedIds.has(id); suffix++) {
+    id = `section-${slug}-${suffix}`;
+  }
+  usedIds.add(id);
+  return id;
+}
+
+function escapeLinkText(text: string): string {
+  return text.replace(/([\\[\]])/g, '\\$1');
+}
@@ -0,0 +1,344 @@
+/*
+Storage for Generated PDFs
+------------------------------------------------------
+Generated PDFs are saved through a PdfStorage and handed out as signed,
+expiring download URLs, so a link keeps working across serverless
+invocations until it expires and cannot be guessed or reused afterwards.
+
+local = a directory on this server (PDF_STORAGE_DIR), served by the /pdfs
+        route. URLs carry an expiry and an HMAC signature (PDF_URL_SECRET).
+        Only suitable where the directory outlives the request, e.g. a
+        long-running server. Refused on Vercel (VERCEL is set), and
+        PDF_URL_SECRET is required when NODE_ENV=production.
+s3 = any S3-compatible object store (AWS S3, MinIO, R2, ...). Uploads and
+     downloads use SigV4 presigned URLs, so the download goes straight to the
+     bucket and no SDK is needed. Expire old objects with a bucket lifecycle
+     rule.
+
+Other backends can be plugged in with setPdfStorage.
+*/
+
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+
+export interface PdfStorage {
+  save(key: string, content: Buffer): Promise<void>;
+  getSignedUrl(key: string, expiresAt: Date): string;
+  // Removes PDFs saved before the cutoff; a no-op where the store expires them itself
+  cleanup(olderThan: Date): Promise<void>;
+}
+
+export type StoredPdf = {
+  key: string;
+  pdfUrl: string;
+  expiresAt: string;
+};
+
+export type LocalPdfStorageOptions = {
+  directory: string;
+  baseUrl: string;
+  secret: string;
+};
+
+export type S3PdfStorageOptions = {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  // e.g. http://localhost:9000 for MinIO; defaults to AWS
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  prefix?: string;
+};
+
+const DEFAULT_URL_TTL_SECONDS = 60 * 60;
+
+// The longest expiry SigV4 presigned URLs allow
+const MAX_S3_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Upload URLs are used immediately, so they only need to live briefly
+const UPLOAD_URL_TTL_SECONDS = 5 * 60;
+
+const KEY_PATTERN = /^[\w-][\w.-]*\.pdf$/;
+
+export class LocalPdfStorage implements PdfStorage {
+  private readonly directory: string;
+  private readonly baseUrl: string;
+  private readonly secret: string;
+
+  constructor(options: LocalPdfStorageOptions) {
+    this.directory = options.directory;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.secret = options.secret;
+  }
+
+  async save(key: string, content: Buffer): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.pathFor(key), content);
+  }
+
+  getSignedUrl(key: string, expiresAt: Date): string {
+    const expires = Math.floor(expiresAt.getTime() / 1000);
+    return `${this.baseUrl}/pdfs/${encodeURIComponent(key)}?expires=${expires}&signature=${this.sign(key, expires)}`;
+  }
+
+  // True when the signature matches the key and expiry and the link has not expired
+  verify(key: string, expires: string, signature: string, now: Date = new Date()): boolean {
+    const expiresAt = Number(expires);
+    if (!KEY_PATTERN.test(key) || !/^\d+$/.test(expires) || expiresAt * 1000 <= now.getTime()) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(key, expiresAt));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  async read(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async cleanup(olderThan: Date): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      // Nothing has been saved yet
+      return;
+    }
+
+    for (const file of files.filter((name) => KEY_PATTERN.test(name))) {
+      try {
+        const filePath = path.join(this.directory, file);
+        const stats = await fs.stat(filePath);
+        if (stats.mtime < olderThan) {
+          await fs.unlink(filePath);
+        }
+      } catch (error) {
+        // File might already be deleted, continue
+      }
+    }
+  }
+
+  private pathFor(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid PDF key "${key}"`);
+    }
+    return path.join(this.directory, key);
+  }
+
+  private sign(key: string, expires: number): string {
+    return createHmac('sha256', this.secret).update(`${key}:${expires}`).digest('hex');
+  }
+}
+
+export class S3PdfStorage implements PdfStorage {
+  private readonly options: S3PdfStorageOptions;
+
+  constructor(options: S3PdfStorageOptions) {
+    this.options = options;
+  }
+
+  async save(key: string, content: Buffer): Promise<void> {
+    const uploadUrl = this.presign('PUT', key, UPLOAD_URL_TTL_SECONDS);
+    try {
+      await axios.put(uploadUrl, content, {
+        headers: { 'Content-Type': 'application/pdf' },
+        timeout: 30000,
+      });
+    } catch (error) {
+      const status = responseStatus(error);
+      throw new Error(
+        `Failed to upload PDF to bucket "${this.options.bucket}"${status ? ` (HTTP ${status})` : ''}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  }
+
+  getSignedUrl(key: string, expiresAt: Date): string {
+    const seconds = Math.ceil((expiresAt.getTime() - Date.now()) / 1000);
+    return this.presign('GET', key, Math.min(Math.max(seconds, 1), MAX_S3_URL_TTL_SECONDS));
+  }
+
+  async cleanup(): Promise<void> {
+    // Objects are expired by the bucket's lifecycle rule
+  }
+
+  // SigV4 query-string authentication with an unsigned payload
+  presign(method: 'GET' | 'PUT', key: string, expiresInSeconds: number, now: Date = new Date()): string {
+    const { region, accessKeyId, secretAccessKey, sessionToken, prefix = '' } = this.options;
+    const url = this.objectUrl(`${prefix}${key}`);
+
+    const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${region}/s3/aws4_request`;
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(expiresInSeconds),
+      'X-Amz-SignedHeaders': 'host',
+      ...(sessionToken && { 'X-Amz-Security-Token': sessionToken }),
+    };
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+
+    const canonicalRequest = [method, url.pathname, canonicalQuery, `host:${url.host}`, '', 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = [date, region, 's3', 'aws4_request'].reduce<Buffer | string>(
+      (signingSecret, part) => hmac(signingSecret, part),
+      `AWS4${secretAccessKey}`
+    );
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private objectUrl(objectKey: string): URL {
+    const { bucket, region, endpoint } = this.options;
+    const encodedKey = objectKey.split('/').map(encodeRfc3986).join('/');
+
+    if (!endpoint) {
+      return new URL(`https://${bucket}.s3.${region}.amazonaws.com/${encodedKey}`);
+    }
+
+    const base = new URL(endpoint);
+    // Stand-ins such as MinIO address buckets by path unless configured otherwise
+    if (this.options.forcePathStyle ?? true) {
+      return new URL(`${base.origin}/${bucket}/${encodedKey}`);
+    }
+    return new URL(`${base.protocol}//${bucket}.${base.host}/${encodedKey}`);
+  }
+}
+
+let pdfStorage: PdfStorage | null = null;
+
+export function getPdfStorage(): PdfStorage {
+  if (!pdfStorage) {
+    pdfStorage = createPdfStorageFromEnv();
+  }
+  return pdfStorage;
+}
+
+export function setPdfStorage(storage: PdfStorage | null): void {
+  pdfStorage = storage;
+}
+
+export function createPdfStorageFromEnv(env: NodeJS.ProcessEnv = process.env): PdfStorage {
+  const backend = (env.PDF_STORAGE || 'local').toLowerCase();
+
+  if (backend === 's3') {
+    const bucket = env.S3_BUCKET;
+    const accessKeyId = env.S3_ACCESS_KEY_ID || env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = env.S3_SECRET_ACCESS_KEY || env.AWS_SECRET_ACCESS_KEY;
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error('PDF_STORAGE=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY environment variables');
+    }
+    return new S3PdfStorage({
+      bucket,
+      region: env.S3_REGION || env.AWS_REGION || 'us-east-1',
+      accessKeyId,
+      secretAccessKey,
+      sessionToken: env.S3_SESSION_TOKEN || env.AWS_SESSION_TOKEN,
+      endpoint: env.S3_ENDPOINT,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE === undefined ? undefined : env.S3_FORCE_PATH_STYLE === 'true',
+      prefix: env.S3_PREFIX ?? 'pdfs/',
+    });
+  }
+
+  if (backend !== 'local') {
+    throw new Error(`Unknown PDF_STORAGE "${env.PDF_STORAGE}". Use "local" or "s3".`);
+  }
+
+  // Each Vercel instance has its own /tmp, so a link signed by one instance finds no file on the next
+  if (env.VERCEL) {
+    throw new Error(
+      'PDF_STORAGE=local does not work on Vercel, where each instance has its own temporary directory. Set PDF_STORAGE=s3 with S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.'
+    );
+  }
+
+  // A dedicated secret, so rotating the API bearer token leaves PDF links intact
+  let secret = env.PDF_URL_SECRET;
+  if (!secret) {
+    if (env.NODE_ENV === 'production') {
+      throw new Error(
+        'PDF_STORAGE=local requires PDF_URL_SECRET in production, so PDF links keep working across restarts and server instances.'
+      );
+    }
+    console.warn('PDF_URL_SECRET is not set; PDF links will stop working when the server restarts.');
+    secret = randomBytes(32).toString('hex');
+  }
+  return new LocalPdfStorage({
+    directory: env.PDF_STORAGE_DIR || path.join(os.tmpdir(), 'opal-pdfs'),
+    baseUrl: resolveBaseUrl(env),
+    secret,
+  });
+}
+
+export function getPdfUrlTtlSeconds(env: NodeJS.ProcessEnv = process.env): number {
+  const ttl = Number(env.PDF_URL_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_URL_TTL_SECONDS;
+}
+
+export async function storePdf(content: Buffer, filename?: string): Promise<StoredPdf> {
+  const storage = getPdfStorage();
+  const key = createPdfKey(filename);
+  const expiresAt = new Date(Date.now() + getPdfUrlTtlSeconds() * 1000);
+
+  await storage.save(key, content);
+  return {
+    key,
+    pdfUrl: storage.getSignedUrl(key, expiresAt),
+    expiresAt: expiresAt.toISOString(),
+  };
+}
+
+// A random suffix keeps two PDFs with the same filename from overwriting each other
+export function createPdfKey(filename?: string): string {
+  const name = (filename || '')
+    .replace(/\.pdf$/i, '')
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/^[.-]+|-+$/g, '')
+    .slice(0, 100);
+  return name ? `${name}-${randomUUID().slice(0, 8)}.pdf` : `document-${randomUUID()}.pdf`;
+}
+
+function resolveBaseUrl(env: NodeJS.ProcessEnv): string {
+  if (env.BASE_URL) {
+    return env.BASE_URL;
+  }
+  return env.VERCEL_URL ? `https://${env.VERCEL_URL}` : 'http://localhost:3000';
+}
+
+// HTTP status of a failed axios request, if the server responded
+function responseStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null || !('response' in error)) {
+    return undefined;
+  }
+  const { response } = error as { response?: { status?: number } };
+  return response?.status;
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+  return createHmac('sha256', key).update(value).digest();
+}
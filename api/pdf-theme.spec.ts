@@ -0,0 +1,83 @@
+import {
+  resolvePdfTheme,
+  registerPdfTheme,
+  listPdfThemes,
+  buildThemeCss,
+  buildThemeHeader,
+  DEFAULT_PDF_THEME,
+} from './pdf-theme';
+
+describe('PDF Themes', () => {
+  const defaultLogo = '<svg id="default-logo"></svg>';
+
+  describe('resolvePdfTheme', () => {
+    it('should keep the original look by default', () => {
+      const theme = resolvePdfTheme();
+
+      expect(theme.name).toBe(DEFAULT_PDF_THEME);
+      expect(theme.primaryColor).toBe('#eee');
+      expect(theme.textColor).toBe('#333');
+      expect(buildThemeHeader(theme, defaultLogo)).toContain(defaultLogo);
+    });
+
+    it('should layer request overrides on top of a registered theme', () => {
+      registerPdfTheme('acme', { primaryColor: '#0a7', fontFamily: 'Inter, Arial, sans-serif', footerText: 'Acme Confidential' });
+
+      const theme = resolvePdfTheme('acme', { primaryColor: 'navy' });
+
+      expect(theme.primaryColor).toBe('navy');
+      expect(theme.fontFamily).toBe('Inter, Arial, sans-serif');
+      expect(theme.headingColor).toBe('#1a1a1a');
+      expect(listPdfThemes()).toEqual(expect.arrayContaining([DEFAULT_PDF_THEME, 'acme']));
+    });
+
+    it('should load themes from the PDF_THEMES environment variable', () => {
+      process.env.PDF_THEMES = JSON.stringify({ globex: { accentColor: 'rgb(240, 240, 255)' } });
+      try {
+        expect(resolvePdfTheme('globex').accentColor).toBe('rgb(240, 240, 255)');
+      } finally {
+        delete process.env.PDF_THEMES;
+      }
+    });
+
+    it('should list the available themes for an unknown name', () => {
+      expect(() => resolvePdfTheme('missing')).toThrow(/Unknown PDF theme "missing".*optimizely/);
+    });
+
+    it.each([
+      [{ primaryColor: 'red; } body { display: none' }, /primaryColor must be a CSS color/],
+      [{ fontFamily: 'Arial; } h1 { color: red' }, /fontFamily must be a list of font names/],
+      [{ logoSvg: '<svg onload="alert(1)"></svg>' }, /logoSvg must be <svg> markup/],
+      [{ logoSvg: '<svg><image href="https://example.com/x.png"/></svg>' }, /logoSvg must be <svg> markup/],
+      [{ logoUrl: 'http://example.com/logo.png' }, /logoUrl must be an https:\/\/ URL/],
+      [{ footerText: 'x'.repeat(201) }, /footerText must be text of at most 200 characters/],
+      [{ watermark: 'DRAFT' }, /unknown field\(s\) watermark/],
+    ])('should reject unsafe override %p', (overrides, message) => {
+      expect(() => resolvePdfTheme(DEFAULT_PDF_THEME, overrides as never)).toThrow(message);
+    });
+  });
+
+  describe('rendering', () => {
+    it('should apply theme colors and fonts to the stylesheet', () => {
+      const css = buildThemeCss(resolvePdfTheme(DEFAULT_PDF_THEME, { headingColor: '#0037ff', headingFontFamily: 'Georgia, serif' }));
+
+      expect(css).toContain('color: #0037ff;');
+      expect(css).toContain('font-family: Georgia, serif;');
+    });
+
+    it('should escape header text', () => {
+      const theme = resolvePdfTheme(DEFAULT_PDF_THEME, { hideLogo: true, headerText: '<b>Q3</b> plan' });
+
+      const header = buildThemeHeader(theme, defaultLogo);
+      expect(header).not.toContain(defaultLogo);
+      expect(header).toContain('&lt;b&gt;Q3&lt;/b&gt; plan');
+    });
+
+    it('should prefer the theme logo over the default', () => {
+      const header = buildThemeHeader(resolvePdfTheme(DEFAULT_PDF_THEME, { logoUrl: 'https://example.com/logo.png' }), defaultLogo);
+
+      expect(header).toContain('<img src="https://example.com/logo.png" alt="">');
+      expect(header).not.toContain(defaultLogo);
+    });
+  });
+});
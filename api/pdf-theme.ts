@@ -0,0 +1,302 @@
+/*
+Themes for Generated PDFs
+------------------------------------------------------
+A theme sets the logo, colors, fonts and header/footer text of a PDF. Themes
+are registered by name on the server (registerPdfTheme, or the PDF_THEMES
+environment variable as a JSON object of name -> theme) and selected per
+request, with optional per-request overrides on top:
+
+  default theme <- registered theme <- request overrides
+
+Theme values end up inside CSS and HTML, so colors and fonts are checked
+against a conservative pattern, text is escaped, and logos must be plain SVG
+markup or an https/data image URL. Without a logo of its own a theme uses
+the Optimizely logo unless hideLogo is set.
+*/
+
+export type PdfTheme = {
+  // Inline SVG markup, or an https:// or data:image/ URL
+  logoSvg?: string;
+  logoUrl?: string;
+  hideLogo?: boolean;
+  primaryColor?: string;
+  textColor?: string;
+  headingColor?: string;
+  accentColor?: string;
+  borderColor?: string;
+  fontFamily?: string;
+  headingFontFamily?: string;
+  headerText?: string;
+  footerText?: string;
+};
+
+export type ResolvedPdfTheme = Required<
+  Pick<
+    PdfTheme,
+    'primaryColor' | 'textColor' | 'headingColor' | 'accentColor' | 'borderColor' | 'fontFamily' | 'headingFontFamily'
+  >
+> &
+  Pick<PdfTheme, 'logoSvg' | 'logoUrl' | 'hideLogo' | 'headerText' | 'footerText'> & {
+    name: string;
+  };
+
+export const DEFAULT_PDF_THEME = 'optimizely';
+
+const DEFAULT_FONT = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Arial, sans-serif";
+
+// The look every PDF had before themes existed
+const BASE_THEME: Omit<ResolvedPdfTheme, 'name'> = {
+  primaryColor: '#eee',
+  textColor: '#333',
+  headingColor: '#1a1a1a',
+  accentColor: '#f5f5f5',
+  borderColor: '#ddd',
+  fontFamily: DEFAULT_FONT,
+  headingFontFamily: DEFAULT_FONT,
+};
+
+const THEME_KEYS: (keyof PdfTheme)[] = [
+  'logoSvg',
+  'logoUrl',
+  'hideLogo',
+  'primaryColor',
+  'textColor',
+  'headingColor',
+  'accentColor',
+  'borderColor',
+  'fontFamily',
+  'headingFontFamily',
+  'headerText',
+  'footerText',
+];
+
+const COLOR_KEYS: (keyof PdfTheme)[] = ['primaryColor', 'textColor', 'headingColor', 'accentColor', 'borderColor'];
+const FONT_KEYS: (keyof PdfTheme)[] = ['fontFamily', 'headingFontFamily'];
+
+// #rgb, #rrggbb(aa), rgb()/rgba()/hsl() with plain numbers, or a color name
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|(rgb|rgba|hsl|hsla)\(\s*[\d.%\s,/]+\)|[a-z]+)$/i;
+
+// Font names, quotes, commas and spaces only, so the value cannot close the CSS rule
+const FONT_PATTERN = /^[\w\s,'"-]+$/;
+
+const MAX_TEXT_LENGTH = 200;
+
+const registeredThemes = new Map<string, PdfTheme>([[DEFAULT_PDF_THEME, {}]]);
+
+let environmentThemesLoaded = false;
+
+export function registerPdfTheme(name: string, theme: PdfTheme): void {
+  if (!name || typeof name !== 'string' || !/^[\w-]+$/.test(name)) {
+    throw new Error(`Invalid PDF theme name "${name}". Use letters, numbers, dashes or underscores.`);
+  }
+  registeredThemes.set(name, validatePdfTheme(theme, `theme "${name}"`));
+}
+
+export function listPdfThemes(): string[] {
+  loadPdfThemesFromEnv();
+  return Array.from(registeredThemes.keys());
+}
+
+// PDF_THEMES='{"acme": {"primaryColor": "#0a7", "logoUrl": "https://..."}}'
+export function loadPdfThemesFromEnv(): void {
+  const json = process.env.PDF_THEMES;
+  if (environmentThemesLoaded || !json) {
+    return;
+  }
+
+  let themes: unknown;
+  try {
+    themes = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`PDF_THEMES must be a JSON object of theme name to theme: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+  }
+  if (!themes || typeof themes !== 'object' || Array.isArray(themes)) {
+    throw new Error('PDF_THEMES must be a JSON object of theme name to theme');
+  }
+
+  Object.entries(themes as Record<string, PdfTheme>).forEach(([name, theme]) => registerPdfTheme(name, theme));
+  environmentThemesLoaded = true;
+}
+
+export function resolvePdfTheme(name: string = DEFAULT_PDF_THEME, overrides?: PdfTheme): ResolvedPdfTheme {
+  loadPdfThemesFromEnv();
+
+  const registered = registeredThemes.get(name);
+  if (!registered) {
+    throw new Error(`Unknown PDF theme "${name}". Available themes: ${Array.from(registeredThemes.keys()).join(', ')}.`);
+  }
+
+  const requested = overrides ? validatePdfTheme(overrides, 'theme overrides') : {};
+  return { ...BASE_THEME, ...registered, ...requested, name };
+}
+
+export function validatePdfTheme(theme: PdfTheme, label: string): PdfTheme {
+  if (!theme || typeof theme !== 'object' || Array.isArray(theme)) {
+    throw new Error(`Invalid PDF ${label}: expected an object with fields such as primaryColor, fontFamily or logoUrl.`);
+  }
+
+  const unknownKeys = Object.keys(theme).filter((key) => !THEME_KEYS.includes(key as keyof PdfTheme));
+  if (unknownKeys.length > 0) {
+    throw new Error(`Invalid PDF ${label}: unknown field(s) ${unknownKeys.join(', ')}. Supported fields: ${THEME_KEYS.join(', ')}.`);
+  }
+
+  COLOR_KEYS.forEach((key) => {
+    const value = theme[key];
+    if (value !== undefined && (typeof value !== 'string' || !COLOR_PATTERN.test(value.trim()))) {
+      throw new Error(`Invalid PDF ${label}: ${key} must be a CSS color such as #0037ff, rgb(0, 55, 255) or navy. Received: ${value}.`);
+    }
+  });
+
+  FONT_KEYS.forEach((key) => {
+    const value = theme[key];
+    if (value !== undefined && (typeof value !== 'string' || !FONT_PATTERN.test(value))) {
+      throw new Error(`Invalid PDF ${label}: ${key} must be a list of font names such as "Inter, Arial, sans-serif". Received: ${value}.`);
+    }
+  });
+
+  (['headerText', 'footerText'] as const).forEach((key) => {
+    const value = theme[key];
+    if (value !== undefined && (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH)) {
+      throw new Error(`Invalid PDF ${label}: ${key} must be text of at most ${MAX_TEXT_LENGTH} characters.`);
+    }
+  });
+
+  const { logoSvg, logoUrl } = theme;
+  if (logoSvg !== undefined && (typeof logoSvg !== 'string' || !isSafeSvg(logoSvg))) {
+    throw new Error(`Invalid PDF ${label}: logoSvg must be <svg> markup without scripts, event handlers or external references.`);
+  }
+  if (logoUrl !== undefined && (typeof logoUrl !== 'string' || !/^(https:\/\/|data:image\/(png|jpeg|gif|svg\+xml|webp)[;,])/i.test(logoUrl))) {
+    throw new Error(`Invalid PDF ${label}: logoUrl must be an https:// URL or a data:image/ URL.`);
+  }
+
+  return theme;
+}
+
+export function buildThemeCss(theme: ResolvedPdfTheme): string {
+  return `
+      body {
+        font-family: ${theme.fontFamily};
+        line-height: 1.6;
+        color: ${theme.textColor};
+        margin: 0;
+        padding: 20px;
+      }
+      .optimizely-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        padding: 20px 0 30px 0;
+        margin-bottom: 30px;
+        border-bottom: 2px solid ${theme.primaryColor};
+      }
+      .optimizely-header svg,
+      .optimizely-header img {
+        height: 40px;
+        width: auto;
+      }
+      .optimizely-header .header-text {
+        font-size: 14px;
+        color: ${theme.headingColor};
+      }
+      h1, h2, h3, h4, h5, h6 {
+        font-family: ${theme.headingFontFamily};
+        color: ${theme.headingColor};
+        margin-top: 24px;
+        margin-bottom: 12px;
+      }
+      h1 { font-size: 28px; }
+      h2 { font-size: 24px; }
+      h3 { font-size: 20px; }
+      h4 { font-size: 18px; }
+      p { margin-bottom: 12px; }
+      code {
+        background: ${theme.accentColor};
+        padding: 2px 6px;
+        border-radius: 3px;
+        font-family: 'Monaco', 'Courier New', monospace;
+        font-size: 0.9em;
+      }
+      pre {
+        background: ${theme.accentColor};
+        padding: 16px;
+        border-radius: 6px;
+        overflow-x: auto;
+        margin: 16px 0;
+      }
+      pre code {
+        background: none;
+        padding: 0;
+      }
+      ul, ol { padding-left: 24px; margin-bottom: 12px; }
+      li { margin-bottom: 6px; }
+      strong { font-weight: 600; }
+      em { font-style: italic; }
+      blockquote {
+        border-left: 4px solid ${theme.borderColor};
+        margin: 16px 0;
+        padding-left: 16px;
+        color: #666;
+      }
+      table {
+        border-collapse: collapse;
+        width: 100%;
+        margin: 16px 0;
+      }
+      th, td {
+        border: 1px solid ${theme.borderColor};
+        padding: 8px;
+        text-align: left;
+      }
+      th {
+        background-color: ${theme.accentColor};
+        font-weight: 600;
+      }
+      .chart {
+        margin: 16px 0;
+        page-break-inside: avoid;
+      }
+    `;
+}
+
+// defaultLogoSvg is used when the theme has no logo of its own
+export function buildThemeHeader(theme: ResolvedPdfTheme, defaultLogoSvg: string): string {
+  let logo = '';
+  if (!theme.hideLogo) {
+    if (theme.logoSvg) {
+      logo = theme.logoSvg;
+    } else if (theme.logoUrl) {
+      logo = `<img src="${escapeHtml(theme.logoUrl)}" alt="">`;
+    } else {
+      logo = defaultLogoSvg;
+    }
+  }
+
+  const headerText = theme.headerText ? `<span class="header-text">${escapeHtml(theme.headerText)}</span>` : '';
+  if (!logo && !headerText) {
+    return '';
+  }
+
+  return `
+<div class="optimizely-header">
+  ${logo}
+  ${headerText}
+</div>
+`;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function isSafeSvg(svg: string): boolean {
+  const markup = svg.trim();
+  return (
+    /^(<\?xml[^>]*>\s*)?<svg[\s>]/i.test(markup) &&
+    !/<script|<foreignObject|\son\w+\s*=|javascript:|(href|src)\s*=\s*["']?\s*(https?:|\/\/)/i.test(markup)
+  );
+}
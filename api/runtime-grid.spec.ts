@@ -0,0 +1,58 @@
+import { estimateRunTimeGrid } from './runtime-grid';
+import { estimateRunTime, CalculationError } from './calculate-runtime';
+
+describe('Runtime Grid', () => {
+  describe('estimateRunTimeGrid', () => {
+    it('should estimate every combination of the axes', () => {
+      const grid = estimateRunTimeGrid(0.1, [0.05, 0.1], [90, 95], 2, [1000, 5000, 10000]);
+
+      expect(grid.tables).toHaveLength(2);
+      expect(grid.tables[0].rows).toHaveLength(2);
+      expect(grid.tables[0].rows[0].cells).toHaveLength(3);
+
+      const cell = grid.tables[1].rows[1].cells[2];
+      expect(cell.status).toBe('ok');
+      expect(cell.days).toBe(estimateRunTime(0.1, 0.1, 95, 2, 10000).days);
+    });
+
+    it('should expand ranges without floating point drift', () => {
+      const grid = estimateRunTimeGrid(0.1, { start: 0.05, end: 0.2, step: 0.05 }, 95, 2, 5000);
+
+      expect(grid.mdeValues).toEqual([0.05, 0.1, 0.15, 0.2]);
+    });
+
+    it('should mark cells that take over a year instead of throwing', () => {
+      const grid = estimateRunTimeGrid(0.1, [0.01, 0.2], 95, 2, 100);
+
+      expect(grid.tables[0].rows[0].cells[0].status).toBe('too_long');
+      expect(grid.tables[0].rows[1].cells[0].status).toBe('ok');
+      expect(grid.markdown).toContain('> 365');
+    });
+
+    it('should mark cells against a custom maximum duration', () => {
+      const grid = estimateRunTimeGrid(0.1, 0.1, 95, 2, [500, 100000], { maxDurationDays: 28 });
+
+      expect(grid.tables[0].rows[0].cells.map((cell) => cell.status)).toEqual(['too_long', 'ok']);
+      expect(grid.markdown).toContain('> 28');
+    });
+
+    it('should render one markdown table per significance level', () => {
+      const grid = estimateRunTimeGrid(0.1, [0.1], [90, 95], 2, [1000, 2000]);
+
+      expect(grid.markdown).toContain('**90% significance** (days)');
+      expect(grid.markdown).toContain('**95% significance** (days)');
+      expect(grid.markdown).toContain('| MDE | 1,000/day | 2,000/day |');
+      expect(grid.markdown).toContain('| 10% |');
+    });
+
+    it('should still throw for invalid shared inputs', () => {
+      expect(() => estimateRunTimeGrid(5, [0.1], 95, 2, 1000)).toThrow(CalculationError);
+    });
+
+    it('should refuse grids that are too large', () => {
+      expect(() =>
+        estimateRunTimeGrid(0.1, { start: 0.01, end: 0.5, step: 0.01 }, [90, 95], 2, { start: 1000, end: 10000, step: 1000 })
+      ).toThrow('more than the limit');
+    });
+  });
+});
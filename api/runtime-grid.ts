@@ -0,0 +1,201 @@
+/*
+Sensitivity Grid for Experiment Duration
+------------------------------------------------------
+Runs estimateRunTime across every combination of MDE, sigLevel and
+dailyVisitors. Each axis accepts a single number, a list of numbers, or an
+inclusive range { start, end, step }.
+
+Cells that cannot be estimated (over maxDurationDays, or MDE_TOO_LARGE) are marked
+instead of failing the whole grid. Invalid inputs such as a bad BCR still
+throw, since they would fail every cell. One markdown table is produced per
+significance level, with MDEs as rows and daily visitors as columns.
+*/
+
+import { estimateRunTime, CalculationError, DEFAULT_MAX_DURATION_DAYS } from './calculate-runtime';
+import type { RuntimeOptions } from './calculate-runtime';
+
+export type GridRange = {
+  start: number;
+  end: number;
+  step: number;
+};
+
+export type GridAxis = number | number[] | GridRange;
+
+export type GridCellStatus = 'ok' | 'too_long' | 'invalid';
+
+export type GridCell = {
+  dailyVisitors: number;
+  status: GridCellStatus;
+  days?: number;
+  rawDays?: number;
+  totalSampleSize?: number;
+  reason?: string;
+};
+
+export type GridRow = {
+  MDE: number;
+  cells: GridCell[];
+};
+
+export type GridTable = {
+  sigLevel: number;
+  rows: GridRow[];
+};
+
+export type RuntimeGrid = {
+  BCR: number;
+  numVariations: number;
+  mdeValues: number[];
+  sigLevels: number[];
+  dailyVisitorValues: number[];
+  tables: GridTable[];
+  markdown: string;
+};
+
+// Keeps tool responses (and the markdown) a readable size
+const MAX_GRID_CELLS = 500;
+
+// Guards against runaway ranges before the cell limit is checked
+const MAX_AXIS_VALUES = 200;
+
+// Cells with these codes are marked rather than failing the grid
+const CELL_ERROR_STATUS: Record<string, GridCellStatus> = {
+  DURATION_TOO_LONG: 'too_long',
+  MDE_TOO_LARGE: 'invalid',
+};
+
+export function estimateRunTimeGrid(
+  BCR: number,
+  MDE: GridAxis,
+  sigLevel: GridAxis,
+  numVariations: number,
+  dailyVisitors: GridAxis,
+  options: RuntimeOptions = {}
+): RuntimeGrid {
+  const mdeValues = expandAxis('MDE', MDE);
+  const sigLevels = expandAxis('sigLevel', sigLevel);
+  const dailyVisitorValues = expandAxis('dailyVisitors', dailyVisitors);
+
+  const cellCount = mdeValues.length * sigLevels.length * dailyVisitorValues.length;
+  if (cellCount > MAX_GRID_CELLS) {
+    throw new CalculationError(
+      `The grid would contain ${cellCount} cells, more than the limit of ${MAX_GRID_CELLS}. Use fewer values or a larger step for MDE, sigLevel or dailyVisitors.`,
+      'GRID_TOO_LARGE',
+      `MDE values: ${mdeValues.length}, sigLevel values: ${sigLevels.length}, dailyVisitors values: ${dailyVisitorValues.length}`
+    );
+  }
+
+  const tables = sigLevels.map((level) => ({
+    sigLevel: level,
+    rows: mdeValues.map((mde) => ({
+      MDE: mde,
+      cells: dailyVisitorValues.map((visitors) =>
+        estimateCell(BCR, mde, level, numVariations, visitors, options)
+      ),
+    })),
+  }));
+
+  return {
+    BCR,
+    numVariations,
+    mdeValues,
+    sigLevels,
+    dailyVisitorValues,
+    tables,
+    markdown: formatGridMarkdown(tables, dailyVisitorValues, options.maxDurationDays ?? DEFAULT_MAX_DURATION_DAYS),
+  };
+}
+
+function estimateCell(
+  BCR: number,
+  MDE: number,
+  sigLevel: number,
+  numVariations: number,
+  dailyVisitors: number,
+  options: RuntimeOptions
+): GridCell {
+  try {
+    const estimate = estimateRunTime(BCR, MDE, sigLevel, numVariations, dailyVisitors, options);
+    return {
+      dailyVisitors,
+      status: 'ok',
+      days: estimate.days,
+      rawDays: estimate.rawDays,
+      totalSampleSize: estimate.totalSampleSize,
+    };
+  } catch (error) {
+    if (error instanceof CalculationError && error.code && CELL_ERROR_STATUS[error.code]) {
+      return {
+        dailyVisitors,
+        status: CELL_ERROR_STATUS[error.code],
+        reason: error.code,
+      };
+    }
+    throw error;
+  }
+}
+
+function expandAxis(name: string, axis: GridAxis): number[] {
+  if (typeof axis === 'number') {
+    return [axis];
+  }
+
+  if (Array.isArray(axis)) {
+    if (axis.length === 0 || axis.length > MAX_AXIS_VALUES || axis.some((value) => typeof value !== 'number' || isNaN(value))) {
+      throw new CalculationError(
+        `${name} must be a number, a list of 1 to ${MAX_AXIS_VALUES} numbers, or a range { start, end, step }. Received: ${JSON.stringify(axis)}.`,
+        'INVALID_GRID_AXIS',
+        `For example ${name === 'MDE' ? '[0.05, 0.1, 0.15]' : name === 'sigLevel' ? '[90, 95]' : '[1000, 5000, 10000]'}`
+      );
+    }
+    return axis;
+  }
+
+  const { start, end, step } = (axis || {}) as GridRange;
+  if (
+    [start, end, step].some((value) => typeof value !== 'number' || !isFinite(value)) ||
+    step <= 0 ||
+    end < start ||
+    Math.floor((end - start) / step) + 1 > MAX_AXIS_VALUES
+  ) {
+    throw new CalculationError(
+      `${name} range must have numeric start <= end and a positive step, producing at most ${MAX_AXIS_VALUES} values. Received: ${JSON.stringify(axis)}.`,
+      'INVALID_GRID_AXIS',
+      `For example { "start": 0.05, "end": 0.2, "step": 0.05 }`
+    );
+  }
+
+  // Multiply rather than accumulate so values like 0.05 + 0.05 + 0.05 stay exact
+  const values: number[] = [];
+  const count = Math.floor((end - start) / step + 1e-9) + 1;
+  for (let i = 0; i < count; i++) {
+    values.push(Number((start + i * step).toPrecision(12)));
+  }
+  return values;
+}
+
+function formatGridMarkdown(tables: GridTable[], dailyVisitorValues: number[], maxDurationDays: number): string {
+  const header = `| MDE | ${dailyVisitorValues.map((visitors) => `${visitors.toLocaleString('en-US')}/day`).join(' | ')} |`;
+  const divider = `|---|${dailyVisitorValues.map(() => '---').join('|')}|`;
+
+  return tables
+    .map((table) => {
+      const rows = table.rows.map(
+        (row) => `| ${formatPercent(row.MDE)} | ${row.cells.map((cell) => formatCell(cell, maxDurationDays)).join(' | ')} |`
+      );
+      return [`**${table.sigLevel}% significance** (days)`, '', header, divider, ...rows].join('\n');
+    })
+    .join('\n\n');
+}
+
+function formatCell(cell: GridCell, maxDurationDays: number): string {
+  if (cell.status === 'ok') {
+    return `${cell.days}`;
+  }
+  return cell.status === 'too_long' ? `> ${maxDurationDays}` : 'n/a';
+}
+
+function formatPercent(value: number): string {
+  return `${Number((value * 100).toPrecision(6))}%`;
+}
@@ -0,0 +1,68 @@
+import { simulateRunTime } from './runtime-simulation';
+import { CalculationError } from './calculate-runtime';
+
+// Regression suite: the calculator's estimates must deliver the error rates
+// they claim. Each case is seeded, so a failure means the formulas changed.
+describe('Runtime Simulation', () => {
+  describe('simulateRunTime', () => {
+    const designs: [string, number, number, number, number, number][] = [
+      ['a 10% lift on a 10% baseline', 0.1, 0.1, 95, 2, 1000],
+      ['a 20% lift on a 5% baseline at 90%', 0.05, 0.2, 90, 2, 2000],
+      ['a low baseline with a large lift', 0.02, 0.3, 95, 2, 500],
+    ];
+
+    it.each(designs)('should hold alpha and power at the fixed horizon for %s', (_, BCR, MDE, sigLevel, numVariations, dailyVisitors) => {
+      const result = simulateRunTime(BCR, MDE, sigLevel, numVariations, dailyVisitors);
+
+      expect(result.fixedHorizon.falsePositiveRate.withinTolerance).toBe(true);
+      expect(result.fixedHorizon.power.withinTolerance).toBe(true);
+    });
+
+    it.each(designs)('should keep sequential false positives at or below alpha for %s', (_, BCR, MDE, sigLevel, numVariations, dailyVisitors) => {
+      const result = simulateRunTime(BCR, MDE, sigLevel, numVariations, dailyVisitors);
+
+      expect(result.sequential.falsePositiveRate.withinTolerance).toBe(true);
+      expect(result.sequential.power).toBeGreaterThan(0.3);
+    });
+
+    it('should hold the corrected alpha per comparison in an A/B/n test', () => {
+      const result = simulateRunTime(0.1, 0.1, 95, 3, 3000, { correction: 'bonferroni' });
+
+      expect(result.fixedHorizon.falsePositiveRate.expected).toBeCloseTo(0.025, 10);
+      expect(result.fixedHorizon.falsePositiveRate.withinTolerance).toBe(true);
+      expect(result.fixedHorizon.power.withinTolerance).toBe(true);
+    });
+
+    it('should be reproducible for the same seed', () => {
+      const first = simulateRunTime(0.1, 0.1, 95, 2, 1000, { simulations: 200, seed: 3 });
+      const second = simulateRunTime(0.1, 0.1, 95, 2, 1000, { simulations: 200, seed: 3 });
+
+      expect(second).toEqual(first);
+    });
+
+    it('should reject too many simulations', () => {
+      let error: unknown;
+      try {
+        simulateRunTime(0.1, 0.1, 95, 2, 1000, { simulations: 1e6 });
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(CalculationError);
+      expect((error as CalculationError).code).toBe('INVALID_SIMULATIONS');
+    });
+
+    it('should cap simulations x days x variations so one request cannot block the server', () => {
+      let error: unknown;
+      try {
+        simulateRunTime(0.05, 0.05, 95, 4, 1600, { simulations: 20000 });
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(CalculationError);
+      expect((error as CalculationError).code).toBe('SIMULATION_TOO_LARGE');
+      expect((error as CalculationError).message).toContain('Use at most 2094 simulations');
+    });
+  });
+});
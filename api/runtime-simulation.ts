@@ -0,0 +1,224 @@
+/*
+Monte Carlo Validation of the Runtime Estimate
+------------------------------------------------------
+Generates synthetic Bernoulli traffic for a BCR/MDE design and checks the
+error rates the calculator promises at the duration it estimates.
+
+fixedHorizon = one pooled two-proportion z-test per treatment at
+               fixedHorizon.totalSampleSize; the false-positive rate should
+               match the (corrected) alpha and the power the requested power
+sequential = a mixture SPRT (always-valid p-value) checked once per day for
+             estimate.days; the false-positive rate should stay at or below
+             alpha, and power is the share of tests significant by then
+
+Null simulations run every arm at BCR. Power simulations give the MDE to the
+smallest treatment arm (the one that limits the duration) and keep the rest
+at BCR. Rates count each treatment-vs-control comparison separately, which is
+what the corrected alpha controls. The generator is seeded, so a given input
+always produces the same rates and the results can guard the calculator in
+tests.
+*/
+
+import { estimateRunTime, CalculationError } from './calculate-runtime';
+import type { RuntimeOptions, RuntimeEstimate } from './calculate-runtime';
+import { normalQuantile, createRandom, sampleBinomial, mixtureSprtLogLikelihoodRatio } from './statistics';
+
+export type SimulationOptions = Pick<RuntimeOptions, 'power' | 'correction' | 'numMetrics' | 'variationWeights'> & {
+  simulations?: number;
+  seed?: number;
+};
+
+export type SimulatedRate = {
+  observed: number;
+  expected: number;
+  standardError: number;
+  withinTolerance: boolean;
+};
+
+export type RuntimeSimulation = {
+  simulations: number;
+  seed: number;
+  estimate: RuntimeEstimate;
+  fixedHorizon: {
+    sampleSizePerVariation: number;
+    falsePositiveRate: SimulatedRate;
+    power: SimulatedRate;
+  };
+  sequential: {
+    days: number;
+    // expected is an upper bound: always-valid tests are conservative
+    falsePositiveRate: SimulatedRate;
+    power: number;
+  };
+};
+
+const DEFAULT_SIMULATIONS = 2000;
+const MAX_SIMULATIONS = 20000;
+const DEFAULT_SEED = 1;
+
+// Each simulation replays every arm day by day twice, inside the request, so
+// simulations x days x numVariations is capped at about a second of work
+const MAX_SIMULATED_ARM_DAYS = 3000000;
+
+// Observed rates within this many standard errors of the target pass
+const TOLERANCE_STANDARD_ERRORS = 3;
+
+export function simulateRunTime(
+  BCR: number,
+  MDE: number,
+  sigLevel: number,
+  numVariations: number,
+  dailyVisitors: number,
+  options: SimulationOptions = {}
+): RuntimeSimulation {
+  const { simulations = DEFAULT_SIMULATIONS, seed = DEFAULT_SEED, ...runtimeOptions } = options;
+
+  if (!Number.isInteger(simulations) || simulations < 1 || simulations > MAX_SIMULATIONS || !Number.isInteger(seed)) {
+    throw new CalculationError(
+      `Simulations must be a whole number from 1 to ${MAX_SIMULATIONS} and the seed a whole number. Received: simulations=${simulations}, seed=${seed}.`,
+      'INVALID_SIMULATIONS',
+      `The defaults of ${DEFAULT_SIMULATIONS} simulations and seed ${DEFAULT_SEED} resolve error rates to about 1 percentage point`
+    );
+  }
+
+  const estimate = estimateRunTime(BCR, MDE, sigLevel, numVariations, dailyVisitors, runtimeOptions);
+  const { alpha, trafficSplit, fixedHorizon } = estimate;
+
+  const armDays = simulations * estimate.days * numVariations;
+  if (armDays > MAX_SIMULATED_ARM_DAYS) {
+    const maxSimulations = Math.floor(MAX_SIMULATED_ARM_DAYS / (estimate.days * numVariations));
+    throw new CalculationError(
+      `Simulating ${simulations} experiments x ${estimate.days} days x ${numVariations} variations is over the limit of ${MAX_SIMULATED_ARM_DAYS} variation-days.${
+        maxSimulations >= 1 ? ` Use at most ${maxSimulations} simulations for this design.` : ''
+      }`,
+      'SIMULATION_TOO_LARGE',
+      { simulations, days: estimate.days, numVariations, limit: MAX_SIMULATED_ARM_DAYS }
+    );
+  }
+  const { shares, limitingVariationIndex } = trafficSplit;
+
+  const nullRates = shares.map(() => BCR);
+  const liftedArm = limitingVariationIndex === 0 ? 1 : limitingVariationIndex;
+  const liftedRates = nullRates.map((rate, arm) => (arm === liftedArm ? BCR * (1 + MDE) : rate));
+
+  const random = createRandom(seed);
+  const comparisons = simulations * (numVariations - 1);
+  const fixedSizes = shares.map((share) => Math.round(share * fixedHorizon.totalSampleSize));
+  const dailyArrivals = shares.map((share) => share * dailyVisitors);
+  const zCritical = normalQuantile(1 - alpha / 2);
+
+  let fixedFalsePositives = 0;
+  let fixedDetections = 0;
+  let sequentialFalsePositives = 0;
+  let sequentialDetections = 0;
+
+  for (let run = 0; run < simulations; run++) {
+    const fixedNull = sampleArms(fixedSizes, nullRates, random);
+    const fixedLifted = sampleArms(fixedSizes, liftedRates, random);
+    for (let arm = 1; arm < numVariations; arm++) {
+      if (Math.abs(pooledZ(fixedSizes, fixedNull, arm)) > zCritical) {
+        fixedFalsePositives++;
+      }
+    }
+    if (Math.abs(pooledZ(fixedSizes, fixedLifted, liftedArm)) > zCritical) {
+      fixedDetections++;
+    }
+
+    const sequentialNull = monitorDaily(dailyArrivals, nullRates, estimate.days, estimate.absoluteMDE, alpha, random);
+    sequentialFalsePositives += sequentialNull.filter((significant) => significant).length;
+    const sequentialLifted = monitorDaily(dailyArrivals, liftedRates, estimate.days, estimate.absoluteMDE, alpha, random);
+    if (sequentialLifted[liftedArm - 1]) {
+      sequentialDetections++;
+    }
+  }
+
+  const sequentialFalsePositiveRate = toRate(sequentialFalsePositives / comparisons, alpha, comparisons);
+
+  return {
+    simulations,
+    seed,
+    estimate,
+    fixedHorizon: {
+      sampleSizePerVariation: fixedHorizon.sampleSizePerVariation,
+      falsePositiveRate: toRate(fixedFalsePositives / comparisons, alpha, comparisons),
+      power: toRate(fixedDetections / simulations, fixedHorizon.power / 100, simulations),
+    },
+    sequential: {
+      days: estimate.days,
+      falsePositiveRate: {
+        ...sequentialFalsePositiveRate,
+        withinTolerance:
+          sequentialFalsePositiveRate.observed <=
+          alpha + TOLERANCE_STANDARD_ERRORS * sequentialFalsePositiveRate.standardError,
+      },
+      power: sequentialDetections / simulations,
+    },
+  };
+}
+
+function sampleArms(sizes: number[], rates: number[], random: () => number): number[] {
+  return sizes.map((size, arm) => sampleBinomial(size, rates[arm], random));
+}
+
+// Pooled two-proportion z statistic for one treatment arm against control
+function pooledZ(sizes: number[], conversions: number[], arm: number): number {
+  const pooled = (conversions[0] + conversions[arm]) / (sizes[0] + sizes[arm]);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / sizes[0] + 1 / sizes[arm]));
+  if (standardError === 0) {
+    return 0;
+  }
+  return (conversions[arm] / sizes[arm] - conversions[0] / sizes[0]) / standardError;
+}
+
+// Runs one experiment day by day and returns, per treatment arm, whether the
+// mixture SPRT against control crossed 1 / alpha at any daily check. The
+// mixing variance is the squared absolute MDE the test was planned for.
+function monitorDaily(
+  dailyArrivals: number[],
+  rates: number[],
+  days: number,
+  absoluteMDE: number,
+  alpha: number,
+  random: () => number
+): boolean[] {
+  const visitors = rates.map(() => 0);
+  const conversions = rates.map(() => 0);
+  const significant = rates.slice(1).map(() => false);
+  const mixingVariance = absoluteMDE * absoluteMDE;
+  const threshold = Math.log(1 / alpha);
+
+  for (let day = 1; day <= days; day++) {
+    rates.forEach((rate, arm) => {
+      const arrivals = Math.round(day * dailyArrivals[arm]) - Math.round((day - 1) * dailyArrivals[arm]);
+      visitors[arm] += arrivals;
+      conversions[arm] += sampleBinomial(arrivals, rate, random);
+    });
+
+    for (let arm = 1; arm < rates.length; arm++) {
+      if (significant[arm - 1] || visitors[0] === 0 || visitors[arm] === 0) {
+        continue;
+      }
+      const control = conversions[0] / visitors[0];
+      const treatment = conversions[arm] / visitors[arm];
+      const variance = (control * (1 - control)) / visitors[0] + (treatment * (1 - treatment)) / visitors[arm];
+      if (variance === 0) {
+        continue;
+      }
+      if (mixtureSprtLogLikelihoodRatio(treatment - control, variance, mixingVariance) >= threshold) {
+        significant[arm - 1] = true;
+      }
+    }
+  }
+
+  return significant;
+}
+
+function toRate(observed: number, expected: number, trials: number): SimulatedRate {
+  const standardError = Math.sqrt((expected * (1 - expected)) / trials);
+  return {
+    observed,
+    expected,
+    standardError,
+    withinTolerance: Math.abs(observed - expected) <= TOLERANCE_STANDARD_ERRORS * standardError,
+  };
+}
@@ -0,0 +1,123 @@
+import { calculateRuntime, calculateDetectableMde, calculateRuntimeGrid, calculateRuntimeFromHistory } from './runtime-tools';
+import { getOptimizelyClient } from './optimizely-client';
+
+jest.mock('./generate-pdf', () => ({
+  generatePdfFromMarkdown: jest.fn(),
+}));
+
+jest.mock('./optimizely-client', () => ({
+  ...jest.requireActual('./optimizely-client'),
+  getOptimizelyClient: jest.fn(),
+}));
+
+describe('Runtime Tools', () => {
+  describe('calculateRuntime', () => {
+    it('should read a binary MDE as a percentage only when written as one and reject a bare 10', async () => {
+      const binary = { BCR: 0.05, sigLevel: 95, numVariations: 2, dailyVisitors: 5000 };
+
+      const percent = await calculateRuntime({ ...binary, MDE: '10%' as unknown as number });
+
+      expect(percent).toMatchObject({ relativeMDE: 0.1 });
+      expect(percent.inputInterpretations?.map((interpretation) => interpretation.parameter)).toEqual(['MDE']);
+      await expect(calculateRuntime({ ...binary, MDE: 10 })).rejects.toThrow(/write a percentage with the sign/);
+    });
+
+    it('should keep a continuous MDE above 100% unless it is written as a percentage', async () => {
+      const continuous = {
+        metricType: 'continuous' as const,
+        baselineMean: 50,
+        standardDeviation: 40,
+        sigLevel: 95,
+        numVariations: 2,
+        dailyVisitors: 5000,
+      };
+
+      const lift = await calculateRuntime({ ...continuous, MDE: 1.5 });
+      const percent = await calculateRuntime({ ...continuous, MDE: '150%' as unknown as number });
+
+      expect(lift).toMatchObject({ relativeMDE: 1.5 });
+      expect(lift.inputInterpretations).toBeUndefined();
+      expect(percent).toMatchObject({ relativeMDE: 1.5 });
+      expect(percent.inputInterpretations?.[0]).toMatchObject({ parameter: 'MDE', received: '150%', interpretedAs: 1.5 });
+    });
+  });
+
+  describe('calculateDetectableMde', () => {
+    it('should normalize inputs like calculateRuntime', async () => {
+      const result = await calculateDetectableMde({ BCR: 5, sigLevel: 0.95, numVariations: 2, dailyVisitors: 5000, maxDays: 14 });
+
+      expect(result.inputInterpretations?.map(({ parameter, interpretedAs }) => [parameter, interpretedAs])).toEqual([
+        ['BCR', 0.05],
+        ['sigLevel', 95],
+      ]);
+    });
+  });
+
+  describe('calculateRuntimeGrid', () => {
+    it('should normalize each value of a list axis', async () => {
+      const MDE = ['5%', '10%'] as unknown as number[];
+      const result = await calculateRuntimeGrid({ BCR: 0.05, MDE, sigLevel: 95, numVariations: 2, dailyVisitors: 5000 });
+
+      expect(result.inputInterpretations?.map((interpretation) => interpretation.parameter)).toEqual(['MDE[0]', 'MDE[1]']);
+    });
+  });
+
+  describe('calculateRuntimeFromHistory', () => {
+    it('should not load past experiments when BCR and dailyVisitors are both given', async () => {
+      const result = await calculateRuntimeFromHistory({
+        projectId: '123',
+        MDE: 0.1,
+        sigLevel: 95,
+        numVariations: 2,
+        BCR: 0.05,
+        dailyVisitors: 5000,
+      });
+
+      expect(getOptimizelyClient).not.toHaveBeenCalled();
+      expect(result.history).toBeUndefined();
+      expect(result.estimate).toMatchObject({ feasible: true, days: 13 });
+    });
+
+    it('should keep each past experiment paired with its own results when one cannot be used', async () => {
+      const variations = [{ variation_id: 'a' }, { variation_id: 'b' }];
+      const results: Record<string, object> = {
+        '1': {
+          start_time: '2025-01-01T00:00:00Z',
+          end_time: '2025-01-11T00:00:00Z',
+          results: [
+            { variation_id: 'a', visitors: 5000, conversions: 500 },
+            { variation_id: 'b', visitors: 0, conversions: 0 },
+          ],
+        },
+        '2': {
+          start_time: '2025-02-01T00:00:00Z',
+          end_time: '2025-02-21T00:00:00Z',
+          results: [
+            { variation_id: 'a', visitors: 20000, conversions: 1000 },
+            { variation_id: 'b', visitors: 20000, conversions: 1100 },
+          ],
+        },
+      };
+      (getOptimizelyClient as jest.Mock).mockReturnValue({
+        listExperiments: jest.fn().mockResolvedValue([
+          { id: 1, name: 'A-broken', status: 'concluded', page_ids: [7], variations, last_modified: '2025-03-01' },
+          { id: 2, name: 'B-valid', status: 'concluded', page_ids: [7], variations },
+        ]),
+        getExperimentResults: jest.fn((_projectId: string, id: number) => Promise.resolve(results[String(id)])),
+      });
+
+      const result = await calculateRuntimeFromHistory({ projectId: '123', pageId: '7', MDE: 0.1, sigLevel: 95, numVariations: 2 });
+
+      expect(result.history?.experiments).toEqual([
+        { experimentId: '2', experimentName: 'B-valid', BCR: 0.05, dailyVisitors: 2000, visitors: 40000, elapsedDays: 20 },
+      ]);
+      expect(result.BCR).toBe(0.05);
+    });
+
+    it('should still need a page to look up when either default comes from history', async () => {
+      await expect(
+        calculateRuntimeFromHistory({ projectId: '123', MDE: 0.1, sigLevel: 95, numVariations: 2, BCR: 0.05 })
+      ).rejects.toThrow(/Provide a pageId or a url/);
+    });
+  });
+});
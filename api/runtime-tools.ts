@@ -0,0 +1,1031 @@
+import {
+  planRunTime,
+  planContinuousRunTime,
+  DEFAULT_MAX_DURATION_DAYS,
+  estimateDetectableMDE,
+  estimateRequiredTraffic,
+  estimateRemainingRunTime,
+  estimateHistoricalBaseline,
+  estimateBayesianRunTime,
+  CalculationError,
+} from "./calculate-runtime";
+import {
+  getOptimizelyClient,
+  OptimizelyClientError,
+} from "./optimizely-client";
+import { estimateRunTimeGrid } from "./runtime-grid";
+import type { GridAxis, RuntimeGrid } from "./runtime-grid";
+import { simulateRunTime } from "./runtime-simulation";
+import type { RuntimeSimulation } from "./runtime-simulation";
+import { normalizeInputs } from "./normalize-inputs";
+import type { InputKind, InputInterpretation } from "./normalize-inputs";
+import { buildExperimentPlan } from "./experiment-plan";
+import type { ExperimentPlan } from "./experiment-plan";
+import { generatePdfFromMarkdown } from "./generate-pdf";
+import type { PdfTheme } from "./pdf-theme";
+import type {
+  CorrectionMethod,
+  MetricType,
+  TestType,
+  RampStep,
+  RuntimeOptions,
+  RuntimeEstimate,
+  ContinuousRuntimeEstimate,
+  RuntimePlan,
+  DetectableMDEEstimate,
+  RequiredTrafficEstimate,
+  RemainingRuntimeEstimate,
+  ObservedExperiment,
+  HistoricalBaseline,
+  BayesianRuntimeEstimate,
+} from "./calculate-runtime";
+import type {
+  OptimizelyExperiment,
+  OptimizelyExperimentResults,
+} from "./optimizely-types";
+
+export type CalculateRuntimeParams = {
+  BCR?: number;
+  MDE: number;
+  sigLevel: number;
+  numVariations: number;
+  dailyVisitors: number;
+  power?: number;
+  correction?: CorrectionMethod;
+  numMetrics?: number;
+  variationWeights?: number[];
+  cycleDays?: number;
+  weekdayTrafficProfile?: number[];
+  startDate?: string;
+  rampSchedule?: RampStep[];
+  maxDurationDays?: number;
+  testType?: TestType;
+  varianceReduction?: number;
+  preExperimentCorrelation?: number;
+  metricType?: MetricType;
+  baselineMean?: number;
+  standardDeviation?: number;
+  variance?: number;
+  bayesian?: boolean;
+  lossThreshold?: number;
+  priorAlpha?: number;
+  priorBeta?: number;
+  simulationSeed?: number;
+};
+
+export type CalculateDetectableMdeParams = {
+  BCR: number;
+  sigLevel: number;
+  numVariations: number;
+  dailyVisitors: number;
+  maxDays: number;
+  power?: number;
+};
+
+export type CalculateRequiredTrafficParams = {
+  BCR: number;
+  MDE: number;
+  sigLevel: number;
+  numVariations: number;
+  targetDays: number;
+  totalDailyTraffic?: number;
+  power?: number;
+};
+
+export type CalculateRuntimeGridParams = {
+  BCR: number;
+  MDE: GridAxis;
+  sigLevel: GridAxis;
+  numVariations: number;
+  dailyVisitors: GridAxis;
+  power?: number;
+  correction?: CorrectionMethod;
+  numMetrics?: number;
+  cycleDays?: number;
+  maxDurationDays?: number;
+  testType?: TestType;
+};
+
+export type SimulateRuntimeParams = {
+  BCR: number;
+  MDE: number;
+  sigLevel: number;
+  numVariations: number;
+  dailyVisitors: number;
+  power?: number;
+  correction?: CorrectionMethod;
+  numMetrics?: number;
+  variationWeights?: number[];
+  simulations?: number;
+  seed?: number;
+};
+
+export type CalculateRemainingRuntimeParams = {
+  projectId: string;
+  experimentId: string;
+  MDE: number;
+  sigLevel?: number;
+  power?: number;
+  correction?: CorrectionMethod;
+  numMetrics?: number;
+  maxDurationDays?: number;
+};
+
+export type ExperimentRemainingRuntime = RemainingRuntimeEstimate & {
+  experimentId: string;
+  experimentName: string;
+  status: string;
+  startTime: string;
+  estimatedEndDate?: string;
+};
+
+export type CalculateHistoricalRuntimeParams = {
+  projectId: string;
+  pageId?: string;
+  url?: string;
+  MDE: number;
+  sigLevel: number;
+  numVariations: number;
+  BCR?: number;
+  dailyVisitors?: number;
+  power?: number;
+  correction?: CorrectionMethod;
+  numMetrics?: number;
+  cycleDays?: number;
+  maxDurationDays?: number;
+  maxExperiments?: number;
+};
+
+export type HistoricalRuntimeEstimate = {
+  BCR: number;
+  dailyVisitors: number;
+  // Left out when BCR and dailyVisitors were both supplied
+  history?: Omit<HistoricalBaseline, "experiments"> & {
+    experiments: (Omit<HistoricalBaseline["experiments"][number], "index"> & {
+      experimentId: string;
+      experimentName: string;
+    })[];
+  };
+  estimate: RuntimePlan<RuntimeEstimate>;
+};
+
+export type GenerateExperimentPlanParams = {
+  title?: string;
+  hypothesis: string;
+  primaryMetric: string;
+  secondaryMetrics?: string[];
+  BCR: number;
+  MDE: number;
+  sigLevel: number;
+  numVariations: number;
+  dailyVisitors: number;
+  power?: number;
+  correction?: CorrectionMethod;
+  variationWeights?: number[];
+  cycleDays?: number;
+  startDate?: string;
+  maxDurationDays?: number;
+  testType?: TestType;
+  risks?: string[];
+  filename?: string;
+  theme?: string;
+  themeOverrides?: PdfTheme;
+};
+
+export type ExperimentPlanDocument = {
+  pdfUrl: string;
+  expiresAt: string;
+  title: string;
+  feasible: boolean;
+  // null when the plan is over maxDurationDays
+  days: number | null;
+  markdown: string;
+  inputInterpretations?: InputInterpretation[];
+};
+
+// Optimizely's default statistical significance threshold
+const DEFAULT_OPTIMIZELY_SIG_LEVEL = 90;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Most recent concluded experiments used for historical defaults
+const DEFAULT_HISTORICAL_EXPERIMENTS = 5;
+
+// Units of the runtime inputs the agent most often gets wrong, e.g. BCR 5
+// instead of 0.05 or sigLevel 0.95 instead of 95
+const RUNTIME_INPUT_KINDS: Partial<Record<keyof CalculateRuntimeParams, InputKind>> = {
+  BCR: "rate",
+  MDE: "relative",
+  sigLevel: "level",
+  power: "level",
+  numVariations: "count",
+  dailyVisitors: "count",
+  numMetrics: "count",
+  cycleDays: "count",
+  maxDurationDays: "count",
+  varianceReduction: "rate",
+  baselineMean: "count",
+  standardDeviation: "count",
+  variance: "count",
+};
+
+type WithInputInterpretations<T> = T & {
+  inputInterpretations?: InputInterpretation[];
+};
+
+export async function calculateRuntime(
+  params: CalculateRuntimeParams
+): Promise<
+  WithInputInterpretations<
+    | (RuntimePlan<RuntimeEstimate> & { bayesian?: BayesianRuntimeEstimate })
+    | RuntimePlan<ContinuousRuntimeEstimate>
+  >
+> {
+  const { params: normalized, interpretations } = normalizeInputs(
+    params,
+    RUNTIME_INPUT_KINDS
+  );
+  const {
+    BCR,
+    MDE,
+    sigLevel,
+    numVariations,
+    dailyVisitors,
+    power,
+    correction,
+    numMetrics,
+    variationWeights,
+    cycleDays,
+    weekdayTrafficProfile,
+    startDate,
+    rampSchedule,
+    maxDurationDays,
+    testType,
+    varianceReduction,
+    preExperimentCorrelation,
+    metricType = "binary",
+    baselineMean,
+    standardDeviation,
+    variance,
+    bayesian = false,
+    lossThreshold,
+    priorAlpha,
+    priorBeta,
+    simulationSeed,
+  } = normalized;
+
+  if (metricType !== "binary" && metricType !== "continuous") {
+    throw new Error(
+      `Invalid metric type: "${metricType}". Use "binary" for conversion metrics (with BCR) or "continuous" for numeric metrics such as revenue per visitor or AOV (with baselineMean and standardDeviation).`
+    );
+  }
+
+  if (bayesian && metricType === "continuous") {
+    throw new Error(
+      `The Bayesian estimate uses a Beta-Binomial model and is only available for binary conversion metrics. Leave out bayesian for continuous metrics.`
+    );
+  }
+
+  if (bayesian && testType !== undefined && testType !== "superiority") {
+    throw new Error(
+      `The Bayesian estimate looks for the better arm, so it only applies to superiority tests. Leave out bayesian for ${testType} tests.`
+    );
+  }
+
+  const options: RuntimeOptions = {
+    power,
+    correction,
+    numMetrics,
+    variationWeights,
+    cycleDays,
+    weekdayTrafficProfile,
+    startDate,
+    rampSchedule,
+    maxDurationDays: resolveMaxDurationDays(maxDurationDays),
+    testType,
+    varianceReduction,
+    preExperimentCorrelation,
+  };
+
+  try {
+    if (metricType === "continuous") {
+      return withInputInterpretations(
+        planContinuousRunTime(
+          { baselineMean: baselineMean as number, standardDeviation, variance },
+          MDE,
+          sigLevel,
+          numVariations,
+          dailyVisitors,
+          options
+        ),
+        interpretations
+      );
+    }
+
+    const plan = planRunTime(
+      BCR as number,
+      MDE,
+      sigLevel,
+      numVariations,
+      dailyVisitors,
+      options
+    );
+    if (!bayesian) {
+      return withInputInterpretations(plan, interpretations);
+    }
+
+    return withInputInterpretations(
+      {
+        ...plan,
+        bayesian: estimateBayesianRunTime(
+          BCR as number,
+          MDE,
+          numVariations,
+          dailyVisitors,
+          {
+            lossThreshold,
+            priorAlpha,
+            priorBeta,
+            seed: simulationSeed,
+            maxDurationDays: options.maxDurationDays,
+          }
+        ),
+      },
+      interpretations
+    );
+  } catch (error) {
+    throw toRuntimeToolError(error);
+  }
+}
+
+export async function calculateDetectableMde(
+  params: CalculateDetectableMdeParams
+): Promise<WithInputInterpretations<DetectableMDEEstimate>> {
+  const { params: normalized, interpretations } = normalizeInputs(params, {
+    ...RUNTIME_INPUT_KINDS,
+    maxDays: "count",
+  });
+  const { BCR, sigLevel, numVariations, dailyVisitors, maxDays, power } =
+    normalized;
+
+  try {
+    return withInputInterpretations(
+      estimateDetectableMDE(
+        BCR,
+        sigLevel,
+        numVariations,
+        dailyVisitors,
+        maxDays,
+        { power }
+      ),
+      interpretations
+    );
+  } catch (error) {
+    throw toRuntimeToolError(error);
+  }
+}
+
+export async function calculateRequiredTraffic(
+  params: CalculateRequiredTrafficParams
+): Promise<WithInputInterpretations<RequiredTrafficEstimate>> {
+  const { params: normalized, interpretations } = normalizeInputs(params, {
+    ...RUNTIME_INPUT_KINDS,
+    targetDays: "count",
+    totalDailyTraffic: "count",
+  });
+  const {
+    BCR,
+    MDE,
+    sigLevel,
+    numVariations,
+    targetDays,
+    totalDailyTraffic,
+    power,
+  } = normalized;
+
+  try {
+    return withInputInterpretations(
+      estimateRequiredTraffic(
+        BCR,
+        MDE,
+        sigLevel,
+        numVariations,
+        targetDays,
+        totalDailyTraffic,
+        { power }
+      ),
+      interpretations
+    );
+  } catch (error) {
+    throw toRuntimeToolError(error);
+  }
+}
+
+export async function calculateRuntimeGrid(
+  params: CalculateRuntimeGridParams
+): Promise<WithInputInterpretations<RuntimeGrid>> {
+  // Scalar and list axes are normalized; the bounds of a { start, end, step }
+  // range are used as given, as documented in the tool description
+  const { params: normalized, interpretations } = normalizeInputs(
+    params,
+    RUNTIME_INPUT_KINDS
+  );
+  const {
+    BCR,
+    MDE,
+    sigLevel,
+    numVariations,
+    dailyVisitors,
+    power,
+    correction,
+    numMetrics,
+    cycleDays,
+    maxDurationDays,
+    testType,
+  } = normalized;
+
+  try {
+    return withInputInterpretations(
+      estimateRunTimeGrid(BCR, MDE, sigLevel, numVariations, dailyVisitors, {
+        power,
+        correction,
+        numMetrics,
+        cycleDays,
+        maxDurationDays: resolveMaxDurationDays(maxDurationDays),
+        testType,
+      }),
+      interpretations
+    );
+  } catch (error) {
+    throw toRuntimeToolError(error);
+  }
+}
+
+export async function simulateRuntime(
+  params: SimulateRuntimeParams
+): Promise<WithInputInterpretations<RuntimeSimulation>> {
+  const { params: normalized, interpretations } = normalizeInputs(params, {
+    ...RUNTIME_INPUT_KINDS,
+    simulations: "count",
+  });
+  const {
+    BCR,
+    MDE,
+    sigLevel,
+    numVariations,
+    dailyVisitors,
+    power,
+    correction,
+    numMetrics,
+    variationWeights,
+    simulations,
+    seed,
+  } = normalized;
+
+  try {
+    return withInputInterpretations(
+      simulateRunTime(BCR, MDE, sigLevel, numVariations, dailyVisitors, {
+        power,
+        correction,
+        numMetrics,
+        variationWeights,
+        simulations,
+        seed,
+      }),
+      interpretations
+    );
+  } catch (error) {
+    throw toRuntimeToolError(error);
+  }
+}
+
+export async function calculateRemainingRuntime(
+  params: CalculateRemainingRuntimeParams
+): Promise<WithInputInterpretations<ExperimentRemainingRuntime>> {
+  const { params: normalized, interpretations } = normalizeInputs(
+    params,
+    RUNTIME_INPUT_KINDS
+  );
+  const {
+    projectId,
+    experimentId,
+    MDE,
+    sigLevel = DEFAULT_OPTIMIZELY_SIG_LEVEL,
+    power,
+    correction,
+    numMetrics,
+    maxDurationDays,
+  } = normalized;
+
+  if (!projectId || typeof projectId !== "string") {
+    throw new Error("Project ID is required and must be a string");
+  }
+  if (!experimentId || typeof experimentId !== "string") {
+    throw new Error("Experiment ID is required and must be a string");
+  }
+
+  const client = getOptimizelyClient();
+
+  try {
+    const [experiment, results] = await Promise.all([
+      client.getExperiment(projectId, experimentId),
+      client.getExperimentResults(projectId, experimentId),
+    ]);
+
+    if (!results.start_time) {
+      throw new Error(
+        `Experiment "${experiment.name}" has not started yet, so there is no traffic to measure. Use calculate_experiment_runtime with BCR and dailyVisitors from analytics instead.`
+      );
+    }
+
+    const startTime = new Date(results.start_time);
+    const asOf = results.end_time ? new Date(results.end_time) : new Date();
+
+    const remaining = estimateRemainingRunTime(
+      toObservedExperiment(experiment, results, asOf),
+      MDE,
+      sigLevel,
+      {
+        power,
+        correction,
+        numMetrics,
+        maxDurationDays: resolveMaxDurationDays(maxDurationDays),
+      }
+    );
+
+    // Only a running experiment has a meaningful end date from today
+    const estimatedEndDate =
+      !results.end_time && remaining.remainingDays !== null
+        ? new Date(asOf.getTime() + remaining.remainingDays * MS_PER_DAY)
+            .toISOString()
+            .slice(0, 10)
+        : undefined;
+
+    return withInputInterpretations(
+      {
+        experimentId,
+        experimentName: experiment.name,
+        status: results.status,
+        startTime: startTime.toISOString(),
+        estimatedEndDate,
+        ...remaining,
+      },
+      interpretations
+    );
+  } catch (error) {
+    if (error instanceof OptimizelyClientError) {
+      throw new Error(`Failed to get experiment results: ${error.message}`);
+    }
+    if (error instanceof CalculationError) {
+      throw toRuntimeToolError(error);
+    }
+    throw error;
+  }
+}
+
+export async function calculateRuntimeFromHistory(
+  params: CalculateHistoricalRuntimeParams
+): Promise<WithInputInterpretations<HistoricalRuntimeEstimate>> {
+  const { params: normalized, interpretations } = normalizeInputs(params, {
+    ...RUNTIME_INPUT_KINDS,
+    maxExperiments: "count",
+  });
+  const {
+    projectId,
+    pageId,
+    url,
+    MDE,
+    sigLevel,
+    numVariations,
+    power,
+    correction,
+    numMetrics,
+    cycleDays,
+    maxDurationDays,
+    maxExperiments = DEFAULT_HISTORICAL_EXPERIMENTS,
+  } = normalized;
+
+  if (!projectId || typeof projectId !== "string") {
+    throw new Error("Project ID is required and must be a string");
+  }
+  // With both overrides there is nothing to take from past experiments
+  const overridden =
+    normalized.BCR !== undefined && normalized.dailyVisitors !== undefined;
+  if (!overridden && !pageId && !url) {
+    throw new Error(
+      "Provide a pageId or a url so past experiments on the same page can be found"
+    );
+  }
+
+  try {
+    const history = overridden
+      ? undefined
+      : await loadPageHistory(projectId, pageId, url, maxExperiments);
+
+    // Without both overrides the history was loaded above
+    const BCR = normalized.BCR ?? (history?.BCR as number);
+    const dailyVisitors =
+      normalized.dailyVisitors ?? (history?.dailyVisitors as number);
+
+    return withInputInterpretations(
+      {
+        BCR,
+        dailyVisitors,
+        history,
+        estimate: planRunTime(BCR, MDE, sigLevel, numVariations, dailyVisitors, {
+          power,
+          correction,
+          numMetrics,
+          cycleDays,
+          maxDurationDays: resolveMaxDurationDays(maxDurationDays),
+        }),
+      },
+      interpretations
+    );
+  } catch (error) {
+    if (error instanceof OptimizelyClientError) {
+      throw new Error(
+        `Failed to load past experiments for project ${projectId}: ${error.message}`
+      );
+    }
+    if (error instanceof CalculationError) {
+      throw toRuntimeToolError(error);
+    }
+    throw error;
+  }
+}
+
+// Pools the concluded experiments that targeted the page, newest first
+async function loadPageHistory(
+  projectId: string,
+  pageId: string | undefined,
+  url: string | undefined,
+  maxExperiments: number
+): Promise<NonNullable<HistoricalRuntimeEstimate["history"]>> {
+  const client = getOptimizelyClient();
+
+  const pageIds = new Set<string>(pageId ? [String(pageId)] : []);
+  if (url) {
+    const pages = await client.listPages(projectId, { per_page: 100 });
+    pages
+      .filter((page) => matchesUrl(url, page.edit_url, page.conditions))
+      .forEach((page) => pageIds.add(String(page.id)));
+  }
+
+  const experiments = await client.listExperiments(projectId, {
+    per_page: 100,
+  });
+  const candidates = experiments
+    .filter(
+      (experiment) =>
+        experiment.status === "concluded" &&
+        targetsPage(experiment, pageIds, url)
+    )
+    .sort((a, b) => (b.last_modified ?? "").localeCompare(a.last_modified ?? ""))
+    .slice(0, maxExperiments);
+
+  const concluded = await Promise.all(
+    candidates.map(async (experiment) => ({
+      experiment,
+      results: await client.getExperimentResults(projectId, experiment.id),
+    }))
+  );
+
+  // Only experiments with a known start and end have a measurable daily rate
+  const measured = concluded.filter(
+    ({ results }) => results.start_time && results.end_time
+  );
+
+  const baseline = estimateHistoricalBaseline(
+    measured.map(({ experiment, results }) =>
+      toObservedExperiment(
+        experiment,
+        results,
+        new Date(results.end_time as string)
+      )
+    )
+  );
+
+  return {
+    ...baseline,
+    experiments: baseline.experiments.map(({ index, ...observed }) => ({
+      experimentId: String(measured[index].experiment.id),
+      experimentName: measured[index].experiment.name,
+      ...observed,
+    })),
+  };
+}
+
+// Orders the results control-first and measures traffic from start_time to asOf
+function toObservedExperiment(
+  experiment: OptimizelyExperiment,
+  results: OptimizelyExperimentResults,
+  asOf: Date
+): ObservedExperiment {
+  // Results are listed in no particular order; the experiment's first variation is the control
+  const order = (experiment.variations || []).map((v) => v.variation_id);
+  const rank = (id: string) => {
+    const index = order.indexOf(id);
+    return index === -1 ? order.length : index;
+  };
+  const variations = [...(results.results || [])].sort(
+    (a, b) => rank(a.variation_id) - rank(b.variation_id)
+  );
+
+  const startTime = new Date(results.start_time as string);
+  return {
+    variations,
+    elapsedDays: (asOf.getTime() - startTime.getTime()) / MS_PER_DAY,
+  };
+}
+
+function targetsPage(
+  experiment: OptimizelyExperiment,
+  pageIds: Set<string>,
+  url?: string
+): boolean {
+  const experimentPages = [
+    ...(experiment.page_ids || []),
+    experiment.url_targeting?.page_id,
+  ];
+  if (experimentPages.some((id) => id !== undefined && pageIds.has(String(id)))) {
+    return true;
+  }
+  return (
+    !!url &&
+    matchesUrl(
+      url,
+      experiment.url_targeting?.edit_url,
+      experiment.url_targeting?.conditions
+    )
+  );
+}
+
+function matchesUrl(url: string, ...targets: (string | undefined)[]): boolean {
+  const needle = url.toLowerCase();
+  return targets.some((target) => !!target && target.toLowerCase().includes(needle));
+}
+
+// Only responses that needed an interpretation report one, so the agent can
+// tell the user which unit was assumed
+function withInputInterpretations<T extends object>(
+  result: T,
+  interpretations: InputInterpretation[]
+): WithInputInterpretations<T> {
+  return interpretations.length > 0
+    ? { ...result, inputInterpretations: interpretations }
+    : result;
+}
+
+export async function generateExperimentPlan(
+  params: GenerateExperimentPlanParams
+): Promise<ExperimentPlanDocument> {
+  const { params: normalized, interpretations } = normalizeInputs(
+    params,
+    RUNTIME_INPUT_KINDS
+  );
+  const {
+    title,
+    hypothesis,
+    primaryMetric,
+    secondaryMetrics,
+    BCR,
+    MDE,
+    sigLevel,
+    numVariations,
+    dailyVisitors,
+    power,
+    correction,
+    variationWeights,
+    cycleDays,
+    startDate,
+    maxDurationDays,
+    testType,
+    risks,
+    filename,
+    theme,
+    themeOverrides,
+  } = normalized;
+
+  if (!hypothesis || typeof hypothesis !== "string") {
+    throw new Error(
+      "Hypothesis is required: describe the change and the outcome you expect, e.g. \"Showing delivery dates on product pages will increase checkout starts.\""
+    );
+  }
+  if (!primaryMetric || typeof primaryMetric !== "string") {
+    throw new Error(
+      "Primary metric is required: name the metric that decides the test, e.g. \"Checkout start rate\"."
+    );
+  }
+
+  let plan: ExperimentPlan;
+  try {
+    plan = buildExperimentPlan({
+      title,
+      hypothesis,
+      primaryMetric,
+      secondaryMetrics,
+      BCR,
+      MDE,
+      sigLevel,
+      numVariations,
+      dailyVisitors,
+      risks,
+      options: {
+        power,
+        correction,
+        variationWeights,
+        cycleDays,
+        startDate,
+        maxDurationDays: resolveMaxDurationDays(maxDurationDays),
+        testType,
+      },
+    });
+  } catch (error) {
+    throw toRuntimeToolError(error);
+  }
+
+  const pdf = await generatePdfFromMarkdown({
+    markdown: plan.markdown,
+    filename,
+    theme,
+    themeOverrides,
+    title: plan.title,
+    header: "{title}",
+    pageNumbers: true,
+  });
+
+  return withInputInterpretations(
+    {
+      ...pdf,
+      title: plan.title,
+      feasible: plan.estimate.feasible,
+      days: plan.estimate.feasible ? plan.estimate.days : null,
+      markdown: plan.markdown,
+    },
+    interpretations
+  );
+}
+
+// Per-request limit first, then the deployment's MAX_EXPERIMENT_DAYS policy
+function resolveMaxDurationDays(requested?: number): number {
+  if (requested !== undefined) {
+    return requested;
+  }
+  const configured = Number(process.env.MAX_EXPERIMENT_DAYS);
+  return configured > 0 ? configured : DEFAULT_MAX_DURATION_DAYS;
+}
+
+// Translate CalculationError codes into guidance the Opal agent can act on
+function toRuntimeToolError(error: unknown): Error {
+  if (error instanceof CalculationError) {
+    // Provide detailed error context for runtime calculations
+    if (error.code === "INVALID_BCR") {
+      return new Error(
+        `Invalid Baseline Conversion Rate: ${error.message} The BCR represents your current conversion rate as a decimal (e.g., 0.05 for 5%). Please check your analytics data and provide the correct conversion rate.`
+      );
+    } else if (error.code === "INVALID_BASELINE_MEAN") {
+      return new Error(
+        `Invalid Baseline Mean: ${error.message} For continuous metrics, provide the current average of the metric (e.g., revenue per visitor or average order value) from your analytics.`
+      );
+    } else if (error.code === "INVALID_STANDARD_DEVIATION") {
+      return new Error(
+        `Invalid Standard Deviation: ${error.message} For continuous metrics, provide the standard deviation (or variance) of the metric per visitor from your analytics or a previous experiment.`
+      );
+    } else if (error.code === "INVALID_MDE") {
+      return new Error(
+        `Invalid Minimum Detectable Effect: ${error.message} The MDE represents the relative improvement you want to detect (e.g., 0.10 for a 10% improvement). Consider what meaningful business impact you want to measure.`
+      );
+    } else if (error.code === "INVALID_SIGNIFICANCE_LEVEL") {
+      return new Error(
+        `Invalid Statistical Significance Level: ${error.message} This determines how confident you want to be in your results. Common values are 90, 95, or 99. Higher values require longer tests.`
+      );
+    } else if (error.code === "INVALID_POWER") {
+      return new Error(
+        `Invalid Statistical Power: ${error.message} Power is the chance of detecting the MDE if it really exists. Common values are 80 or 90. Higher values require longer tests.`
+      );
+    } else if (error.code === "INVALID_CORRECTION") {
+      return new Error(
+        `Invalid Multiple-Comparison Correction: ${error.message} Leave it out for no correction, or use "bonferroni", "sidak" or "fdr" for tests with many variations or metrics.`
+      );
+    } else if (error.code === "INVALID_TEST_TYPE") {
+      return new Error(
+        `Invalid Test Type: ${error.message} For non-inferiority and equivalence tests, MDE is the margin, e.g. 0.02 to rule out a drop of more than 2%.`
+      );
+    } else if (error.code === "INVALID_VARIANCE_REDUCTION") {
+      return new Error(
+        `Invalid CUPED Adjustment: ${error.message} Pass varianceReduction (e.g. 0.3) or preExperimentCorrelation (e.g. 0.55) from a previous CUPED analysis, or leave both out for an unadjusted estimate.`
+      );
+    } else if (error.code === "INVALID_NUM_METRICS") {
+      return new Error(
+        `Invalid Number of Metrics: ${error.message} Count the metrics you will use to decide the winner; the correction grows with the number of comparisons.`
+      );
+    } else if (error.code === "INVALID_NUM_VARIATIONS") {
+      return new Error(
+        `Invalid Number of Variations: ${error.message} For a simple A/B test, use 2 (control + one variation). For A/B/C testing, use 3, and so on.`
+      );
+    } else if (error.code === "INVALID_VARIATION_WEIGHTS") {
+      return new Error(
+        `Invalid Variation Weights: ${error.message} Provide one weight per variation in the same order as numVariations, e.g. the weights used in create_experiment.`
+      );
+    } else if (error.code === "INVALID_CYCLE_DAYS") {
+      return new Error(
+        `Invalid Cycle Days: ${error.message} Rounding to full weeks avoids ending a test mid-week, when weekday and weekend visitors are unevenly represented.`
+      );
+    } else if (error.code === "INVALID_WEEKDAY_PROFILE") {
+      return new Error(
+        `Invalid Weekday Traffic Profile: ${error.message} Provide relative traffic for Monday through Sunday from your analytics, e.g. [1, 1, 1, 1, 1, 0.6, 0.6].`
+      );
+    } else if (error.code === "INVALID_START_DATE") {
+      return new Error(
+        `Invalid Start Date: ${error.message} Use an ISO date such as 2025-03-03.`
+      );
+    } else if (error.code === "INVALID_RAMP_SCHEDULE") {
+      return new Error(
+        `Invalid Ramp Schedule: ${error.message} Each step sets the percentage of dailyVisitors allocated to the test from that day onwards.`
+      );
+    } else if (error.code === "INVALID_MAX_DURATION") {
+      return new Error(
+        `Invalid Maximum Duration: ${error.message} Leave it out to use the server's default policy.`
+      );
+    } else if (error.code === "INVALID_LOSS_THRESHOLD") {
+      return new Error(
+        `Invalid Loss Threshold: ${error.message} Smaller thresholds take longer but make a wrong decision less costly.`
+      );
+    } else if (error.code === "INVALID_PRIOR") {
+      return new Error(
+        `Invalid Prior: ${error.message} Leave priorAlpha and priorBeta out for an uninformative prior.`
+      );
+    } else if (error.code === "INVALID_SIMULATIONS") {
+      return new Error(
+        `Invalid Simulation Settings: ${error.message}`
+      );
+    } else if (error.code === "SIMULATION_TOO_LARGE") {
+      return new Error(
+        `Simulation too large: ${error.message} Shorten maxDurationDays or compare fewer variations.`
+      );
+    } else if (error.code === "INVALID_DAILY_VISITORS") {
+      return new Error(
+        `Invalid Daily Visitors: ${error.message} This should be the number of unique visitors per day who will see your experiment. Check your website analytics for accurate traffic numbers.`
+      );
+    } else if (error.code === "INVALID_MAX_DAYS") {
+      return new Error(
+        `Invalid Maximum Days: ${error.message} This is the length of the window you have available for the experiment, in days.`
+      );
+    } else if (error.code === "INVALID_TARGET_DAYS") {
+      return new Error(
+        `Invalid Target Days: ${error.message} This is how long you want the experiment to run, in days.`
+      );
+    } else if (error.code === "TARGET_DAYS_TOO_SHORT") {
+      return new Error(
+        `Target too short: ${error.message} Extend the target, or drop the cycle rounding for this estimate.`
+      );
+    } else if (error.code === "INVALID_TOTAL_TRAFFIC") {
+      return new Error(
+        `Invalid Total Daily Traffic: ${error.message} Leave it out if you only need the required daily visitors, or check your website analytics for the total traffic to the page.`
+      );
+    } else if (error.code === "INVALID_ELAPSED_DAYS") {
+      return new Error(
+        `Experiment has not run yet: ${error.message}`
+      );
+    } else if (error.code === "NO_OBSERVED_TRAFFIC") {
+      return new Error(
+        `Not enough live traffic: ${error.message} Until then, use calculate_experiment_runtime with dailyVisitors from analytics.`
+      );
+    } else if (error.code === "NO_OBSERVED_CONVERSIONS") {
+      return new Error(
+        `Not enough live conversions: ${error.message} Wait for more conversions, or use calculate_experiment_runtime with the BCR from analytics.`
+      );
+    } else if (error.code === "NO_HISTORICAL_EXPERIMENTS") {
+      return new Error(
+        `No usable past experiments: ${error.message} Check the pageId or url, or pass BCR and dailyVisitors directly.`
+      );
+    } else if (error.code === "INVALID_GRID_AXIS") {
+      return new Error(
+        `Invalid grid values: ${error.message} Each of MDE, sigLevel and dailyVisitors can be a single number, a list like [0.05, 0.1], or a range like {"start": 0.05, "end": 0.2, "step": 0.05}.`
+      );
+    } else if (error.code === "GRID_TOO_LARGE") {
+      return new Error(
+        `Grid too large: ${error.message} Narrow the ranges or increase the step sizes.`
+      );
+    } else if (error.code === "MDE_TOO_LARGE") {
+      return new Error(
+        `Minimum Detectable Effect is too large: ${error.message} Your MDE would result in a conversion rate below 0% or above 100%. Try reducing the MDE to a more realistic value, or verify your BCR is correct. MDE is a decimal (0.1 for a 10% lift); write a percentage with the sign ("10%").`
+      );
+    } else if (error.code === "DURATION_TOO_LONG") {
+      return new Error(
+        `Experiment duration too long: ${error.message} To reduce the duration, you can: 1) Increase the MDE (detect larger effects), 2) Lower the significance level (accept more uncertainty), or 3) Get more daily traffic to the test.`
+      );
+    } else if (error.code === "MAX_DAYS_TOO_SHORT") {
+      return new Error(
+        `Test window too short: ${error.message} No realistic effect size can be detected in this window with the given traffic.`
+      );
+    }
+    return new Error(`Runtime calculation error: ${error.message}`);
+  }
+  return new Error(
+    `Unexpected error calculating experiment runtime: ${
+      error instanceof Error ? error.message : "Unknown error"
+    }`
+  );
+}
@@ -0,0 +1,187 @@
+/*
+Shared statistical helpers for the runtime calculator and analysis tools
+------------------------------------------------------
+normalCdf = standard normal cumulative distribution function
+normalQuantile = inverse of normalCdf (Acklam's rational approximation,
+                 relative error below 1.2e-9 across (0, 1))
+normalPdf = standard normal density
+chiSquareSurvival = upper-tail probability of the chi-square distribution
+                    (regularized incomplete gamma, Numerical Recipes style)
+createRandom = seeded uniform generator (mulberry32) so simulations are
+               reproducible offline
+sampleNormal / sampleBinomial = draws using a generator from createRandom
+mixtureSprtLogLikelihoodRatio = log of the mixture SPRT statistic for an
+                                observed difference with normal mixing
+                                variance; exp(-result) is an always-valid
+                                p-value
+*/
+
+export function normalCdf(z: number): number {
+  // Abramowitz & Stegun 7.1.26 via the error function
+  const sign = z < 0 ? -1 : 1;
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return 0.5 * (1 + sign * y);
+}
+
+export function normalPdf(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1 || isNaN(p)) {
+    throw new RangeError(`normalQuantile expects a probability in (0, 1). Received: ${p}`);
+  }
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+
+  const pLow = 0.02425;
+  const pHigh = 1 - pLow;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  if (p > pHigh) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export function chiSquareSurvival(statistic: number, degreesOfFreedom: number): number {
+  if (statistic <= 0) {
+    return 1;
+  }
+  return regularizedGammaQ(degreesOfFreedom / 2, statistic / 2);
+}
+
+function regularizedGammaQ(a: number, x: number): number {
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  // Series for P(a, x) converges quickly below a + 1
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-15; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  // Otherwise Lentz's continued fraction for Q(a, x)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    d = Math.abs(d) < tiny ? tiny : d;
+    c = b + an / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) {
+      break;
+    }
+  }
+  return Math.exp(logPrefix) * h;
+}
+
+// Lanczos approximation (g = 7, n = 9)
+function logGamma(x: number): number {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  const shifted = x - 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) {
+    sum += coefficients[i] / (shifted + i);
+  }
+  const t = shifted + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+export function mixtureSprtLogLikelihoodRatio(
+  difference: number,
+  variance: number,
+  mixingVariance: number
+): number {
+  return (
+    0.5 * Math.log(variance / (variance + mixingVariance)) +
+    (mixingVariance * difference * difference) / (2 * variance * (variance + mixingVariance))
+  );
+}
+
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function sampleNormal(random: () => number): number {
+  // Box-Muller; 1 - random() keeps the logarithm away from zero
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+export function sampleBinomial(n: number, p: number, random: () => number): number {
+  if (n <= 0 || p <= 0) {
+    return 0;
+  }
+  if (p >= 1) {
+    return n;
+  }
+
+  // Normal approximation once the distribution is well away from its bounds
+  const variance = n * p * (1 - p);
+  if (variance >= 10) {
+    const draw = Math.round(n * p + Math.sqrt(variance) * sampleNormal(random));
+    return Math.min(n, Math.max(0, draw));
+  }
+
+  // Otherwise invert the CDF exactly, walking up from zero successes; count
+  // failures instead when p > 0.5 so the starting probability cannot underflow
+  if (p > 0.5) {
+    return n - sampleBinomial(n, 1 - p, random);
+  }
+  const ratio = p / (1 - p);
+  let probability = Math.pow(1 - p, n);
+  let cumulative = probability;
+  const u = random();
+  let k = 0;
+  while (u > cumulative && k < n) {
+    probability *= (ratio * (n - k)) / (k + 1);
+    cumulative += probability;
+    k++;
+  }
+  return k;
+}